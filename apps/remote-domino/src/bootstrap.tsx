@@ -1,49 +1,120 @@
 import { StrictMode } from "react";
 import { createRoot, type Root } from "react-dom/client";
-import { UnifiedAuthProvider } from "@one-portal/auth";
+import {
+  REMOTE_CONTRACT_VERSION,
+  type RemoteAppMetadata,
+  type RemoteMountContext,
+} from "@one-portal/types";
+import { ShellHostProvider, UnifiedAuthProvider } from "@one-portal/auth";
+import { I18nProvider } from "@one-portal/ui";
 import { msalInstance, getAuthConfig } from "./auth/msalInstance";
 import { PUBLIC_ROUTES } from "./config/routes";
+import { menuItems } from "./config/menu";
 import App from "./App";
+import { queryClient } from "./queryClient";
+import { createAppRouter, type AppRouter } from "./router";
 
 // Load debug utilities in development
 if (import.meta.env.DEV) {
   import("./debug/authDebug");
 }
 
-export async function mount(containerId: string): Promise<Root> {
-  const container = document.getElementById(containerId);
+export const contractVersion = REMOTE_CONTRACT_VERSION;
 
-  if (!container) {
-    throw new Error(
-      `[Domino] Container element with ID "${containerId}" not found`,
-    );
-  }
-
-  console.info(`[Domino] Mounting into container: ${containerId}`);
+interface MountedInstance {
+  root: Root;
+  router: AppRouter;
+  context: RemoteMountContext;
+  unsubscribe: () => void;
+}
 
-  const root = createRoot(container);
+const instances = new Map<HTMLElement, MountedInstance>();
 
-  root.render(
+function render(instance: MountedInstance): void {
+  instance.root.render(
     <StrictMode>
-      <UnifiedAuthProvider
-        msalInstance={msalInstance}
-        mode="remote"
-        appName="domino"
-        getAuthConfig={getAuthConfig}
-        debug={import.meta.env.DEV}
-        publicRoutes={PUBLIC_ROUTES}
-      >
-        <App />
-      </UnifiedAuthProvider>
+      <I18nProvider locale={instance.context.locale}>
+        <UnifiedAuthProvider
+          msalInstance={msalInstance}
+          mode="remote"
+          appName="domino"
+          getAuthConfig={getAuthConfig}
+          debug={import.meta.env.DEV}
+          onAccountChange={() => queryClient.clear()}
+          publicRoutes={PUBLIC_ROUTES}
+        >
+          <ShellHostProvider host={instance.context.shell}>
+            <App router={instance.router} />
+          </ShellHostProvider>
+        </UnifiedAuthProvider>
+      </I18nProvider>
     </StrictMode>,
   );
+}
+
+export async function mount(
+  container: HTMLElement,
+  context: RemoteMountContext,
+): Promise<void> {
+  console.info(`[Domino] Mounting under ${context.basePath}`);
+
+  const router = createAppRouter(context);
+  const instance: MountedInstance = {
+    root: createRoot(container),
+    router,
+    context,
+    unsubscribe: () => {},
+  };
+
+  // Report in-app navigation so the Shell updates the browser URL and history
+  instance.unsubscribe = router.history.subscribe(({ action }) => {
+    const { href } = router.history.location;
+    if (href !== instance.context.location) {
+      instance.context.shell.syncLocation(href, {
+        replace: action.type === "REPLACE",
+      });
+    }
+  });
+
+  instances.set(container, instance);
 
-  return root;
+  render(instance);
+
+  // Make the app's pages searchable from the Shell command palette
+  context.shell.registerMenu(menuItems);
 }
 
-export function unmount(root: Root): void {
+export function unmount(container: HTMLElement): void {
   console.info("[Domino] Unmounting application");
-  root.unmount();
+  const instance = instances.get(container);
+  instance?.unsubscribe();
+  instance?.root.unmount();
+  instances.delete(container);
+}
+
+export function update(context: RemoteMountContext): void {
+  for (const instance of instances.values()) {
+    const previous = instance.context;
+    instance.context = context;
+
+    // A keep-alive restore hands over the host API of the new Shell mount:
+    // re-render so useShellHost() consumers re-report title, breadcrumbs and
+    // theme listeners to it, and register the menu again
+    const hostChanged = previous.shell !== context.shell;
+    if (hostChanged || previous.locale !== context.locale) {
+      render(instance);
+    }
+    if (hostChanged) {
+      context.shell.registerMenu(menuItems);
+    }
+    if (instance.router.history.location.href !== context.location) {
+      instance.router.history.replace(context.location);
+    }
+  }
+}
+
+export function getMetadata(): RemoteAppMetadata {
+  return { name: "domino", framework: "react" };
 }
 
 declare global {
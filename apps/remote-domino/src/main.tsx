@@ -3,6 +3,8 @@ import { createRoot } from "react-dom/client";
 import { UnifiedAuthProvider } from "@one-portal/auth/providers";
 import { msalInstance, getAuthConfig } from "./auth/msalInstance";
 import App from "./App";
+import { queryClient } from "./queryClient";
+import { createAppRouter } from "./router";
 import "./style.css";
 import "./styles/sidebar-overrides.css";
 
@@ -23,8 +25,9 @@ createRoot(document.getElementById("app")!).render(
       mode="remote"
       appName="domino"
       debug={import.meta.env.DEV}
+      onAccountChange={() => queryClient.clear()}
     >
-      <App />
+      <App router={createAppRouter()} />
     </UnifiedAuthProvider>
   </StrictMode>,
 );
@@ -0,0 +1,8 @@
+import { createQueryClient } from '@one-portal/config';
+import { isAuthError } from '@one-portal/auth/utils';
+
+/**
+ * Shared by the app tree and the auth provider, which clears it when the
+ * active account changes
+ */
+export const queryClient = createQueryClient({ shouldSkipRetry: isAuthError });
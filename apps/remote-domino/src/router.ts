@@ -0,0 +1,32 @@
+import { createMemoryHistory, createRouter } from '@tanstack/react-router';
+import type { RemoteMountContext } from '@one-portal/types';
+import { routeTree } from './routeTree.gen';
+
+/**
+ * Create the router for one mount of the app.
+ *
+ * Embedded in the Shell, routing runs on an in-memory history seeded with the
+ * Shell's location and scoped to its base path (e.g. `/apps/domino`); the
+ * Shell owns the browser URL. Standalone, the router uses browser history.
+ */
+export function createAppRouter(
+  context?: Pick<RemoteMountContext, 'basePath' | 'location'>
+) {
+  return createRouter({
+    routeTree,
+    context: {},
+    basepath: context?.basePath,
+    history: context
+      ? createMemoryHistory({ initialEntries: [context.location] })
+      : undefined,
+    defaultPreload: false,
+  });
+}
+
+export type AppRouter = ReturnType<typeof createAppRouter>;
+
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: AppRouter;
+  }
+}
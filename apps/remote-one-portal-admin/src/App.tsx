@@ -1,29 +1,7 @@
-import { RouterProvider, createRouter } from "@tanstack/react-router";
+import { RouterProvider } from "@tanstack/react-router";
 import { QueryClientProvider } from "@tanstack/react-query";
-import { createQueryClient } from "@one-portal/config";
-import { isAuthError } from "@one-portal/auth/utils";
-import { routeTree } from "./routeTree.gen";
-
-// Create QueryClient with auth-aware retry logic
-const queryClient = createQueryClient({ shouldSkipRetry: isAuthError });
-
-// Create router instance
-const router = createRouter({
-  routeTree,
-  context: {},
-  // Handle both embedded mode (/apps/one-portal-admin) and standalone mode (/)
-  basepath: window.location.pathname.startsWith("/apps/")
-    ? "/apps/one-portal-admin"
-    : undefined,
-  defaultPreload: false,
-});
-
-// Register router type for type safety
-declare module "@tanstack/react-router" {
-  interface Register {
-    router: typeof router;
-  }
-}
+import type { AppRouter } from "./router";
+import { queryClient } from "./queryClient";
 
 /**
  * Main App component for One Portal Admin
@@ -33,7 +11,7 @@ declare module "@tanstack/react-router" {
  * - TanStack Router for type-safe routing
  * - Auth-aware error handling and retries
  */
-function App() {
+function App({ router }: { router: AppRouter }) {
   return (
     <QueryClientProvider client={queryClient}>
       <RouterProvider router={router} />
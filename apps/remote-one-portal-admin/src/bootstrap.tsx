@@ -1,9 +1,18 @@
 import { StrictMode } from "react";
 import { createRoot, type Root } from "react-dom/client";
-import { UnifiedAuthProvider } from "@one-portal/auth";
+import {
+  REMOTE_CONTRACT_VERSION,
+  type RemoteAppMetadata,
+  type RemoteMountContext,
+} from "@one-portal/types";
+import { ShellHostProvider, UnifiedAuthProvider } from "@one-portal/auth";
+import { I18nProvider } from "@one-portal/ui";
 import { msalInstance, getAuthConfig } from "./auth/msalInstance";
 import { PUBLIC_ROUTES } from "./config/routes";
+import { menuItems } from "./config/menu";
 import App from "./App";
+import { queryClient } from "./queryClient";
+import { createAppRouter, type AppRouter } from "./router";
 
 // Load debug utilities in development
 if (import.meta.env.DEV) {
@@ -11,52 +20,124 @@ if (import.meta.env.DEV) {
 }
 
 /**
- * Mount One Portal Admin app into a specified container
+ * Lifecycle contract version this remote was built against
+ */
+export const contractVersion = REMOTE_CONTRACT_VERSION;
+
+interface MountedInstance {
+  root: Root;
+  router: AppRouter;
+  context: RemoteMountContext;
+  unsubscribe: () => void;
+}
+
+const instances = new Map<HTMLElement, MountedInstance>();
+
+/**
+ * Render (or re-render) an instance from its current Shell context
+ */
+function render(instance: MountedInstance): void {
+  instance.root.render(
+    <StrictMode>
+      <I18nProvider locale={instance.context.locale}>
+        <UnifiedAuthProvider
+          msalInstance={msalInstance}
+          mode="remote"
+          appName="one-portal-admin"
+          getAuthConfig={getAuthConfig}
+          debug={import.meta.env.DEV}
+          onAccountChange={() => queryClient.clear()}
+          publicRoutes={PUBLIC_ROUTES}
+        >
+          <ShellHostProvider host={instance.context.shell}>
+            <App router={instance.router} />
+          </ShellHostProvider>
+        </UnifiedAuthProvider>
+      </I18nProvider>
+    </StrictMode>,
+  );
+}
+
+/**
+ * Mount One Portal Admin app into the container provided by the Shell
  *
  * This is the Module Federation entry point called by the Shell app.
  *
- * @param containerId - The ID of the DOM element to mount into
- * @returns Root instance for cleanup
+ * @param container - The DOM element to mount into
+ * @param context - Shell-provided context (base path, theme, locale, auth, host API)
  */
-export async function mount(containerId: string): Promise<Root> {
-  const container = document.getElementById(containerId);
+export async function mount(
+  container: HTMLElement,
+  context: RemoteMountContext,
+): Promise<void> {
+  console.info(`[One Portal Admin] Mounting under ${context.basePath}`);
 
-  if (!container) {
-    throw new Error(
-      `[One Portal Admin] Container element with ID "${containerId}" not found`,
-    );
-  }
+  const router = createAppRouter(context);
+  const instance: MountedInstance = {
+    root: createRoot(container),
+    router,
+    context,
+    unsubscribe: () => {},
+  };
 
-  console.info(`[One Portal Admin] Mounting into container: ${containerId}`);
+  // Report in-app navigation so the Shell updates the browser URL and history
+  instance.unsubscribe = router.history.subscribe(({ action }) => {
+    const { href } = router.history.location;
+    if (href !== instance.context.location) {
+      instance.context.shell.syncLocation(href, {
+        replace: action.type === "REPLACE",
+      });
+    }
+  });
 
-  const root = createRoot(container);
+  instances.set(container, instance);
 
-  root.render(
-    <StrictMode>
-      <UnifiedAuthProvider
-        msalInstance={msalInstance}
-        mode="remote"
-        appName="one-portal-admin"
-        getAuthConfig={getAuthConfig}
-        debug={import.meta.env.DEV}
-        publicRoutes={PUBLIC_ROUTES}
-      >
-        <App />
-      </UnifiedAuthProvider>
-    </StrictMode>,
-  );
+  render(instance);
 
-  return root;
+  // Make the app's pages searchable from the Shell command palette
+  context.shell.registerMenu(menuItems);
 }
 
 /**
  * Unmount One Portal Admin app and cleanup resources
  *
- * @param root - The Root instance returned from mount()
+ * @param container - The container passed to mount()
  */
-export function unmount(root: Root): void {
+export function unmount(container: HTMLElement): void {
   console.info("[One Portal Admin] Unmounting application");
-  root.unmount();
+  const instance = instances.get(container);
+  instance?.unsubscribe();
+  instance?.root.unmount();
+  instances.delete(container);
+}
+
+/**
+ * Apply an updated Shell context, following Shell-driven navigation
+ * (back/forward, deep links, shell.navigate) on the in-memory router
+ */
+export function update(context: RemoteMountContext): void {
+  for (const instance of instances.values()) {
+    const previous = instance.context;
+    instance.context = context;
+
+    // A keep-alive restore hands over the host API of the new Shell mount:
+    // re-render so useShellHost() consumers re-report title, breadcrumbs and
+    // theme listeners to it, and register the menu again
+    const hostChanged = previous.shell !== context.shell;
+    if (hostChanged || previous.locale !== context.locale) {
+      render(instance);
+    }
+    if (hostChanged) {
+      context.shell.registerMenu(menuItems);
+    }
+    if (instance.router.history.location.href !== context.location) {
+      instance.router.history.replace(context.location);
+    }
+  }
+}
+
+export function getMetadata(): RemoteAppMetadata {
+  return { name: "one-portal-admin", framework: "react" };
 }
 
 // Type augmentation for global flag
@@ -4,6 +4,8 @@ import { UnifiedAuthProvider } from "@one-portal/auth";
 import { msalInstance, getAuthConfig } from "./auth/msalInstance";
 import { PUBLIC_ROUTES } from "./config/routes";
 import App from "./App";
+import { queryClient } from "./queryClient";
+import { createAppRouter } from "./router";
 import "./style.css";
 import "./styles/sidebar-overrides.css";
 // Import CSS only in standalone mode (dev/preview)
@@ -34,9 +36,10 @@ root.render(
       appName="one-portal-admin"
       getAuthConfig={getAuthConfig}
       debug={import.meta.env.DEV}
+      onAccountChange={() => queryClient.clear()}
       publicRoutes={PUBLIC_ROUTES}
     >
-      <App />
+      <App router={createAppRouter()} />
     </UnifiedAuthProvider>
   </StrictMode>,
 );
@@ -3,38 +3,47 @@ import react from "@vitejs/plugin-react";
 import federation from "@originjs/vite-plugin-federation";
 import { tanstackRouter } from "@tanstack/router-plugin/vite";
 import tailwindcss from "@tailwindcss/vite";
+import { buildManifest } from "@one-portal/config/vite";
+
+// Singletons shared with the shell; also recorded in the build manifest
+const shared = {
+  react: {
+    singleton: true,
+    requiredVersion: "^19.2.0",
+  },
+  "react-dom": {
+    singleton: true,
+    requiredVersion: "^19.2.0",
+  },
+  "@tanstack/react-query": {
+    singleton: true,
+  },
+  "@tanstack/react-router": {
+    singleton: true,
+  },
+  "lucide-react": {
+    singleton: true,
+  },
+};
 
 export default defineConfig({
   plugins: [
     tanstackRouter(),
     react(),
     tailwindcss(),
+    buildManifest({ name: "one-portal-admin", shared }),
     federation({
       name: "one-portal-admin",
       filename: "remoteEntry.js",
       exposes: {
         "./App": "./src/App.tsx",
-        "./bootstrap": "./src/bootstrap.tsx",
-      },
-      shared: {
-        react: {
-          singleton: true,
-          requiredVersion: "^19.2.0",
-        },
-        "react-dom": {
-          singleton: true,
-          requiredVersion: "^19.2.0",
-        },
-        "@tanstack/react-query": {
-          singleton: true,
-        },
-        "@tanstack/react-router": {
-          singleton: true,
-        },
-        "lucide-react": {
-          singleton: true,
+        // The shell attaches the stylesheets itself so it can isolate and remove them
+        "./bootstrap": {
+          import: "./src/bootstrap.tsx",
+          dontAppendStylesToHead: true,
         },
       },
+      shared,
     }),
   ],
   base: process.env.NODE_ENV === "production" ? "/one-portal-admin/" : "/",
@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  toast,
+} from '@one-portal/ui';
+import { useAuth } from '@one-portal/auth/hooks';
+import type { RemoteMenuItem } from '@one-portal/types';
+import { useAppStore } from '../stores/appStore';
+import { useCommandStore } from '../stores/commandStore';
+import { useAuthorizedApps } from '../hooks/useAuthorizedApps';
+import { useShellTranslation } from '../i18n/messages';
+
+type CommandKind = 'app' | 'menu' | 'action';
+
+interface PaletteCommand {
+  /** Stable id, also used for recents: `app:<appId>`, `menu:<appId>:<path>`, `action:<appId>:<id>` */
+  id: string;
+  kind: CommandKind;
+  label: string;
+  /** Name of the app the command belongs to */
+  appName: string;
+  description?: string;
+  keywords: string[];
+  run: () => void | Promise<void>;
+}
+
+const MAX_RECENT_ITEMS = 5;
+
+/**
+ * Ctrl/Cmd+K palette listing apps, remote menu entries and remote actions.
+ * Entries are filtered by the user's roles and matched with cmdk's fuzzy search.
+ */
+export function CommandPalette() {
+  const navigate = useNavigate();
+  const { state, hasRole } = useAuth();
+  const { t } = useShellTranslation();
+  const [search, setSearch] = useState('');
+
+  const apps = useAuthorizedApps(useAppStore((s) => s.availableApps));
+  const { isPaletteOpen, setPaletteOpen, menus, actions, recentCommands, recordRecent } =
+    useCommandStore();
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setPaletteOpen(!useCommandStore.getState().isPaletteOpen);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [setPaletteOpen]);
+
+  const commands = useMemo<PaletteCommand[]>(() => {
+    const isAllowed = (roles?: string[]) => !roles?.length || hasRole(roles);
+    const goTo = (to: string) => () => navigate({ to });
+
+    return apps.flatMap((app) => {
+      const basePath = `/apps/${app.id}`;
+
+      const appCommand: PaletteCommand = {
+        id: `app:${app.id}`,
+        kind: 'app',
+        label: app.name,
+        appName: app.name,
+        keywords: [app.id],
+        run: goTo(basePath),
+      };
+
+      const menuCommands = flattenMenu(menus[app.id] ?? [])
+        .filter((item) => isAllowed(item.requiredRoles))
+        .map<PaletteCommand>((item) => ({
+          id: `menu:${app.id}:${item.path}`,
+          kind: 'menu',
+          label: item.name,
+          appName: app.name,
+          description: item.description,
+          keywords: [app.name, item.description ?? ''],
+          run: goTo(item.path === '/' ? basePath : `${basePath}${item.path}`),
+        }));
+
+      const actionCommands = (actions[app.id] ?? [])
+        .filter((action) => isAllowed(action.requiredRoles))
+        .map<PaletteCommand>((action) => ({
+          id: `action:${app.id}:${action.id}`,
+          kind: 'action',
+          label: action.label,
+          appName: app.name,
+          description: action.description,
+          keywords: [app.name, action.description ?? '', ...(action.keywords ?? [])],
+          run: action.run,
+        }));
+
+      return [appCommand, ...menuCommands, ...actionCommands];
+    });
+  }, [apps, menus, actions, hasRole, navigate]);
+
+  const recent = useMemo(
+    () =>
+      recentCommands
+        .map((id) => commands.find((command) => command.id === id))
+        .filter((command): command is PaletteCommand => !!command)
+        .slice(0, MAX_RECENT_ITEMS),
+    [commands, recentCommands]
+  );
+
+  if (!state.isAuthenticated) {
+    return null;
+  }
+
+  const runCommand = async (command: PaletteCommand) => {
+    setPaletteOpen(false);
+    setSearch('');
+    recordRecent(command.id);
+
+    try {
+      await command.run();
+    } catch (error) {
+      console.error(`[CommandPalette] "${command.label}" failed:`, error);
+      toast.error(t('palette.actionFailed', { label: command.label }));
+    }
+  };
+
+  const renderItem = (command: PaletteCommand, valuePrefix = '') => (
+    <CommandItem
+      key={`${valuePrefix}${command.id}`}
+      value={`${valuePrefix}${command.id}`}
+      keywords={[command.label, ...command.keywords]}
+      onSelect={() => void runCommand(command)}
+    >
+      <div className="flex flex-col">
+        <span>{command.label}</span>
+        {command.kind !== 'app' && (
+          <span className="text-xs text-muted-foreground">
+            {command.description
+              ? `${command.appName} · ${command.description}`
+              : command.appName}
+          </span>
+        )}
+      </div>
+    </CommandItem>
+  );
+
+  const byKind = (kind: CommandKind) => commands.filter((command) => command.kind === kind);
+
+  return (
+    <CommandDialog
+      open={isPaletteOpen}
+      onOpenChange={(open) => {
+        setPaletteOpen(open);
+        if (!open) setSearch('');
+      }}
+    >
+      <CommandInput
+        placeholder={t('palette.placeholder')}
+        value={search}
+        onValueChange={setSearch}
+      />
+      <CommandList>
+        <CommandEmpty>{t('palette.empty')}</CommandEmpty>
+        {search === '' && recent.length > 0 && (
+          <CommandGroup heading={t('palette.recent')}>
+            {recent.map((command) => renderItem(command, 'recent:'))}
+          </CommandGroup>
+        )}
+        <CommandGroup heading={t('palette.apps')}>
+          {byKind('app').map((c) => renderItem(c))}
+        </CommandGroup>
+        {byKind('menu').length > 0 && (
+          <CommandGroup heading={t('palette.pages')}>
+            {byKind('menu').map((c) => renderItem(c))}
+          </CommandGroup>
+        )}
+        {byKind('action').length > 0 && (
+          <CommandGroup heading={t('palette.actions')}>
+            {byKind('action').map((c) => renderItem(c))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
+
+function flattenMenu(items: RemoteMenuItem[]): RemoteMenuItem[] {
+  return [...items]
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .flatMap((item) => [item, ...flattenMenu(item.children ?? [])]);
+}
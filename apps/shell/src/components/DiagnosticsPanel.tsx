@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  RefreshCw,
+  cn,
+} from '@one-portal/ui';
+import type {
+  CompatibilityLevel,
+  FederatedRemoteApp,
+  RemoteTelemetryPhase,
+} from '@one-portal/types';
+import {
+  getHostManifest,
+  inspectRemoteCompatibility,
+  type RemoteCompatibility,
+} from '../services/sharedDependencies';
+import { getRemoteTimings } from '../services/remoteTelemetry';
+import { useShellTranslation } from '../i18n/messages';
+
+const LEVEL_CLASS_NAMES: Record<CompatibilityLevel, string> = {
+  ok: '',
+  info: 'text-muted-foreground',
+  warning: 'text-amber-600 dark:text-amber-400',
+  error: 'text-destructive font-medium',
+};
+
+const LEVEL_BADGE_VARIANTS = {
+  ok: 'default',
+  info: 'default',
+  warning: 'secondary',
+  error: 'destructive',
+} as const satisfies Record<CompatibilityLevel, string>;
+
+const TIMING_PHASES: RemoteTelemetryPhase[] = [
+  'entry-fetch',
+  'evaluate',
+  'bootstrap',
+  'mount',
+  'first-render',
+  'unmount',
+];
+
+interface DiagnosticsPanelProps {
+  apps: FederatedRemoteApp[];
+}
+
+/**
+ * Matrix of the shell's and each remote's build manifest: contract version,
+ * build and shared dependency versions, highlighted by compatibility.
+ * Followed by the latest load timings of remotes opened in this session.
+ */
+export function DiagnosticsPanel({ apps }: DiagnosticsPanelProps) {
+  const { t, formatDate, formatNumber } = useShellTranslation();
+  const host = getHostManifest();
+  const [results, setResults] = useState<Record<string, RemoteCompatibility>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const inspect = useCallback(async () => {
+    setIsLoading(true);
+    const entries = await Promise.all(
+      apps.map(
+        async (app) =>
+          [app.id, await inspectRemoteCompatibility(app.remoteEntryUrl, app.scope)] as const
+      )
+    );
+    setResults(Object.fromEntries(entries));
+    setIsLoading(false);
+  }, [apps]);
+
+  useEffect(() => {
+    void inspect();
+  }, [inspect]);
+
+  const dependencyNames = [
+    ...new Set([
+      ...Object.keys(host.shared),
+      ...Object.values(results).flatMap((result) => Object.keys(result.manifest?.shared ?? {})),
+    ]),
+  ].sort();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{t('diagnostics.title')}</CardTitle>
+          <CardDescription>{t('diagnostics.description')}</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void inspect()} disabled={isLoading}>
+          <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+          {t('diagnostics.refresh')}
+        </Button>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2 pr-4 font-medium">{t('diagnostics.dependency')}</th>
+              <th className="py-2 pr-4 font-medium">{host.name}</th>
+              {apps.map((app) => {
+                const result = results[app.id];
+                return (
+                  <th key={app.id} className="py-2 pr-4 font-medium">
+                    <div className="flex items-center gap-2">
+                      <span>{app.name}</span>
+                      {result?.report && (
+                        <Badge variant={LEVEL_BADGE_VARIANTS[result.report.level]}>
+                          {t(`diagnostics.level.${result.report.level}`)}
+                        </Badge>
+                      )}
+                      {result && !result.report && (
+                        <Badge variant="outline" title={result.error}>
+                          {t('diagnostics.noManifest')}
+                        </Badge>
+                      )}
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="font-mono text-xs">
+            <tr className="border-b">
+              <td className="py-2 pr-4 font-sans">{t('diagnostics.contract')}</td>
+              <td className="py-2 pr-4">{host.contractVersion}</td>
+              {apps.map((app) => {
+                const contract = results[app.id]?.report?.contract;
+                return (
+                  <td
+                    key={app.id}
+                    className={cn('py-2 pr-4', contract && LEVEL_CLASS_NAMES[contract.level])}
+                  >
+                    {contract?.remoteVersion ?? '-'}
+                  </td>
+                );
+              })}
+            </tr>
+            <tr className="border-b">
+              <td className="py-2 pr-4 font-sans">{t('diagnostics.build')}</td>
+              <td className="py-2 pr-4" title={host.builtAt}>
+                {host.buildHash} · {formatDate(host.builtAt, { dateStyle: 'short' })}
+              </td>
+              {apps.map((app) => {
+                const manifest = results[app.id]?.manifest;
+                return (
+                  <td key={app.id} className="py-2 pr-4" title={manifest?.builtAt}>
+                    {manifest
+                      ? `${manifest.buildHash} · ${formatDate(manifest.builtAt, { dateStyle: 'short' })}`
+                      : '-'}
+                  </td>
+                );
+              })}
+            </tr>
+            {dependencyNames.map((name) => (
+              <tr key={name} className="border-b last:border-0">
+                <td className="py-2 pr-4">{name}</td>
+                <td className="py-2 pr-4">
+                  {host.shared[name]?.version ?? t('diagnostics.notShared')}
+                </td>
+                {apps.map((app) => {
+                  const check = results[app.id]?.report?.dependencies.find(
+                    (dependency) => dependency.name === name
+                  );
+                  return (
+                    <td
+                      key={app.id}
+                      className={cn('py-2 pr-4', check && LEVEL_CLASS_NAMES[check.level])}
+                      title={check?.reason}
+                    >
+                      {check?.remoteVersion ?? (check ? t('diagnostics.notShared') : '-')}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td colSpan={apps.length + 2} className="pt-6 pb-2 font-sans font-medium">
+                {t('diagnostics.timings')}
+              </td>
+            </tr>
+            {TIMING_PHASES.map((phase) => (
+              <tr key={phase} className="border-b last:border-0">
+                <td className="py-2 pr-4 font-sans">{t(`diagnostics.timing.${phase}`)}</td>
+                <td className="py-2 pr-4">-</td>
+                {apps.map((app) => {
+                  const durationMs = getRemoteTimings(app.scope)[phase];
+                  return (
+                    <td key={app.id} className="py-2 pr-4">
+                      {durationMs === undefined ? '-' : `${formatNumber(durationMs)} ms`}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
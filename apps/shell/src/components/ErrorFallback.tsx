@@ -12,6 +12,8 @@ import {
   CardHeader,
   CardTitle,
 } from '@one-portal/ui';
+import { ShellError, translateError } from '@one-portal/types';
+import { useShellTranslation } from '../i18n/messages';
 
 interface ErrorFallbackProps {
   error?: Error | string;
@@ -26,8 +28,13 @@ export function ErrorFallback({
   onRetry,
   className = '',
 }: ErrorFallbackProps) {
+  const { t, locale } = useShellTranslation();
   const errorMessage =
-    typeof error === 'string' ? error : error?.message || 'An unexpected error occurred';
+    error instanceof ShellError
+      ? translateError(error, locale, { appName })
+      : typeof error === 'string'
+        ? error
+        : error?.message || t('app.error.unexpected');
 
   return (
     <div className={`flex items-center justify-center min-h-[400px] p-4 ${className}`}>
@@ -38,9 +45,11 @@ export function ErrorFallback({
               <AlertCircle className="h-6 w-6 text-destructive" />
             </div>
             <div>
-              <CardTitle className="text-destructive">Failed to Load {appName}</CardTitle>
+              <CardTitle className="text-destructive">
+                {t('app.error.title', { appName })}
+              </CardTitle>
               <CardDescription>
-                We encountered a problem loading this application
+                {t('app.error.description')}
               </CardDescription>
             </div>
           </div>
@@ -48,18 +57,18 @@ export function ErrorFallback({
         <CardContent className="space-y-4">
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Error Details</AlertTitle>
+            <AlertTitle>{t('app.error.details')}</AlertTitle>
             <AlertDescription className="mt-2 text-sm">
               {errorMessage}
             </AlertDescription>
           </Alert>
 
           <div className="text-sm text-muted-foreground space-y-2">
-            <p className="font-medium">What you can try:</p>
+            <p className="font-medium">{t('app.error.suggestions')}</p>
             <ul className="list-disc list-inside space-y-1 ml-2">
-              <li>Check your internet connection</li>
-              <li>Try refreshing the page</li>
-              <li>Contact support if the problem persists</li>
+              <li>{t('app.error.checkConnection')}</li>
+              <li>{t('app.error.refresh')}</li>
+              <li>{t('app.error.contactSupport')}</li>
             </ul>
           </div>
         </CardContent>
@@ -67,7 +76,7 @@ export function ErrorFallback({
           {onRetry && (
             <Button onClick={onRetry} variant="default" className="flex-1">
               <RefreshCw className="mr-2 h-4 w-4" />
-              Try Again
+              {t('app.error.retry')}
             </Button>
           )}
           <Button
@@ -75,7 +84,7 @@ export function ErrorFallback({
             className="flex-1"
             onClick={() => (window.location.href = '/')}
           >
-            Go to Home
+            {t('common.goHome')}
           </Button>
         </CardFooter>
       </Card>
@@ -0,0 +1,54 @@
+import {
+  ShieldAlert,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@one-portal/ui';
+import { useShellTranslation } from '../i18n/messages';
+
+interface ForbiddenProps {
+  appName?: string;
+  className?: string;
+}
+
+export function Forbidden({ appName, className = '' }: ForbiddenProps) {
+  const { t } = useShellTranslation();
+
+  return (
+    <div className={`flex items-center justify-center min-h-[400px] p-4 ${className}`}>
+      <Card className="max-w-lg w-full">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+              <ShieldAlert className="h-6 w-6 text-destructive" />
+            </div>
+            <div>
+              <CardTitle>{t('forbidden.title')}</CardTitle>
+              <CardDescription>
+                {appName
+                  ? t('forbidden.app', { appName })
+                  : t('forbidden.page')}
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          {t('forbidden.help')}
+        </CardContent>
+        <CardFooter>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => (window.location.href = '/')}
+          >
+            {t('common.goHome')}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
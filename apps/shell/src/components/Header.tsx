@@ -6,11 +6,21 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
   Settings,
   User,
   LogOut,
+  Languages,
+  Users,
+  UserPlus,
+  Activity,
+  Search,
   NavigationMenu,
   NavigationMenuList,
   NavigationMenuItem,
@@ -19,23 +29,42 @@ import {
   cn,
 } from "@one-portal/ui";
 import { useAuth } from "@one-portal/auth/hooks";
+import {
+  LANGUAGE_LABELS,
+  SUPPORTED_LANGUAGES,
+  isFederatedRemoteApp,
+  isSupportedLanguage,
+} from "@one-portal/types";
 import { ThemeToggle } from "./ThemeToggle";
-import { publishAuthEvent } from "@one-portal/auth/events";
+import { ShellBreadcrumbs } from "./ShellBreadcrumbs";
+import { signOutEverywhere } from "@one-portal/auth/session";
 import { Link, useRouterState } from "@tanstack/react-router";
-import type { RemoteApp } from "@one-portal/types";
 import { getAuthConfig } from "../auth/msalInstance";
+import { useAppStore } from "../stores/appStore";
+import { prefetchRemote } from "../services/remoteLoader";
+import { useAuthorizedApps } from "../hooks/useAuthorizedApps";
+import { usePreferencesStore } from "../stores/preferencesStore";
+import { useCommandStore } from "../stores/commandStore";
+import { useHealthStore } from "../stores/healthStore";
+import { useShellTranslation } from "../i18n/messages";
 import ShellIcon from "../shellIcon";
 
 interface HeaderProps {
-  apps?: RemoteApp[];
   className?: string;
 }
 
-export function Header({ apps = [], className = "" }: HeaderProps) {
-  const { state, login, logout } = useAuth();
+export function Header({ className = "" }: HeaderProps) {
+  const apps = useAuthorizedApps(useAppStore((state) => state.availableApps));
+  const { state, accounts, switchAccount, login, logout } = useAuth();
   const { isAuthenticated, account } = state;
   const router = useRouterState();
   const currentPath = router.location.pathname;
+  const { t, locale } = useShellTranslation();
+  const updatePreferences = usePreferencesStore(
+    (state) => state.updatePreferences,
+  );
+  const setPaletteOpen = useCommandStore((state) => state.setPaletteOpen);
+  const remoteHealth = useHealthStore((state) => state.health);
 
   const handleSignIn = async () => {
     try {
@@ -48,13 +77,12 @@ export function Header({ apps = [], className = "" }: HeaderProps) {
 
   const handleSignOut = async () => {
     try {
-      publishAuthEvent("auth:signed-out", {
+      // Mounted remotes clear their session before logout unloads them
+      await signOutEverywhere({
         appName: "shell",
         clientId: getAuthConfig().clientId,
       });
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
       // Redirect to sign-in page after logout (not home page which would trigger route guard)
       const postLogoutUrl = new URL(window.location.origin);
       postLogoutUrl.pathname = "/sign-in";
@@ -66,6 +94,14 @@ export function Header({ apps = [], className = "" }: HeaderProps) {
     }
   };
 
+  const handleSwitchAccount = async (homeAccountId: string) => {
+    try {
+      await switchAccount(homeAccountId);
+    } catch (error) {
+      console.error("[Shell] Account switch error:", error);
+    }
+  };
+
   const getInitials = (name: string | undefined): string => {
     if (!name) return "U";
     return name
@@ -103,26 +139,54 @@ export function Header({ apps = [], className = "" }: HeaderProps) {
                         )}
                         aria-current={currentPath === "/" ? "page" : undefined}
                       >
-                        Home
+                        {t("nav.home")}
                       </NavigationMenuLink>
                     </Link>
                   </NavigationMenuItem>
 
                   {apps.map((app) => {
                     const appPath = `/apps/${app.id}`;
-                    const isActive = currentPath === appPath;
+                    const isActive =
+                      currentPath === appPath ||
+                      currentPath.startsWith(`${appPath}/`);
+                    const isDegraded =
+                      remoteHealth[app.id]?.status === "degraded";
+                    const prefetch = () =>
+                      isFederatedRemoteApp(app) &&
+                      prefetchRemote(app.remoteEntryUrl, app.scope, {
+                        fallbackUrls: app.fallbackEntryUrls,
+                        versionPolicy: app.versionPolicy,
+                      });
 
                     return (
                       <NavigationMenuItem key={app.id}>
-                        <Link to={appPath}>
+                        <Link
+                          to={appPath}
+                          onMouseEnter={prefetch}
+                          onFocus={prefetch}
+                        >
                           <NavigationMenuLink
                             className={cn(
                               navigationMenuTriggerStyle(),
                               isActive && "bg-accent text-accent-foreground",
                             )}
                             aria-current={isActive ? "page" : undefined}
+                            title={
+                              isDegraded
+                                ? t("nav.degraded", { appName: app.name })
+                                : undefined
+                            }
                           >
                             {app.name}
+                            {isDegraded && (
+                              <span
+                                className="ml-2 h-2 w-2 rounded-full bg-amber-500"
+                                role="img"
+                                aria-label={t("nav.degraded", {
+                                  appName: app.name,
+                                })}
+                              />
+                            )}
                           </NavigationMenuLink>
                         </Link>
                       </NavigationMenuItem>
@@ -131,14 +195,30 @@ export function Header({ apps = [], className = "" }: HeaderProps) {
                 </NavigationMenuList>
               </NavigationMenu>
             )}
+
+            {isAuthenticated && <ShellBreadcrumbs />}
           </div>
 
           <div className="flex items-center gap-2">
+            {isAuthenticated && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 text-muted-foreground"
+                onClick={() => setPaletteOpen(true)}
+              >
+                <Search className="h-4 w-4" />
+                <span className="hidden sm:inline">{t("palette.open")}</span>
+                <kbd className="hidden rounded border bg-muted px-1.5 font-mono text-[10px] sm:inline">
+                  Ctrl K
+                </kbd>
+              </Button>
+            )}
             <ThemeToggle />
 
             {!isAuthenticated && (
               <Button onClick={handleSignIn} variant="default">
-                Sign In
+                {t("header.signIn")}
               </Button>
             )}
 
@@ -148,7 +228,7 @@ export function Header({ apps = [], className = "" }: HeaderProps) {
                   <Button
                     variant="ghost"
                     className="relative h-10 w-10 rounded-full"
-                    aria-label="User menu"
+                    aria-label={t("header.userMenu")}
                   >
                     <Avatar className="h-10 w-10">
                       <AvatarFallback className="bg-primary text-primary-foreground">
@@ -171,19 +251,84 @@ export function Header({ apps = [], className = "" }: HeaderProps) {
                   <DropdownMenuSeparator />
                   <DropdownMenuItem>
                     <User className="mr-2 h-4 w-4" />
-                    <span>Profile</span>
+                    <span>{t("header.profile")}</span>
                   </DropdownMenuItem>
                   <DropdownMenuItem>
                     <Settings className="mr-2 h-4 w-4" />
-                    <span>Settings</span>
+                    <span>{t("header.settings")}</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/diagnostics">
+                      <Activity className="mr-2 h-4 w-4" />
+                      <span>{t("header.diagnostics")}</span>
+                    </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Languages className="mr-2 h-4 w-4" />
+                      <span>{t("header.language")}</span>
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuRadioGroup
+                        value={locale}
+                        onValueChange={(value) => {
+                          if (isSupportedLanguage(value)) {
+                            updatePreferences({ language: value });
+                          }
+                        }}
+                      >
+                        {SUPPORTED_LANGUAGES.map((language) => (
+                          <DropdownMenuRadioItem
+                            key={language}
+                            value={language}
+                            lang={language}
+                          >
+                            {LANGUAGE_LABELS[language]}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Users className="mr-2 h-4 w-4" />
+                      <span>{t("header.switchAccount")}</span>
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="w-64">
+                      <DropdownMenuRadioGroup
+                        value={account?.homeAccountId}
+                        onValueChange={handleSwitchAccount}
+                      >
+                        {accounts.map((cachedAccount) => (
+                          <DropdownMenuRadioItem
+                            key={cachedAccount.homeAccountId}
+                            value={cachedAccount.homeAccountId}
+                          >
+                            <div className="flex flex-col space-y-1">
+                              <span className="text-sm leading-none">
+                                {cachedAccount.name || cachedAccount.username}
+                              </span>
+                              <span className="text-xs leading-none text-muted-foreground">
+                                {cachedAccount.username}
+                              </span>
+                            </div>
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={handleSignIn}>
+                        <UserPlus className="mr-2 h-4 w-4" />
+                        <span>{t("header.addAccount")}</span>
+                      </DropdownMenuItem>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     className="text-destructive focus:text-destructive"
                     onClick={handleSignOut}
                   >
                     <LogOut className="mr-2 h-4 w-4" />
-                    <span>Log out</span>
+                    <span>{t("header.logOut")}</span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
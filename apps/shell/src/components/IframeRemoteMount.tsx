@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ERROR_MESSAGES,
+  ErrorCode,
+  IFRAME_BRIDGE_PROTOCOL,
+  ShellError,
+  isFrameToShellMessage,
+  isIframeBridgeMessage,
+  publishMessage,
+  type IframeRemoteApp,
+  type IframeShellState,
+  type IframeSsoHints,
+  type ShellToFrameMessage,
+} from '@one-portal/types';
+import { isAllowedOrigin, isValidReturnUrl, reportUserActivity } from '@one-portal/auth';
+import { useAuth } from '@one-portal/auth/hooks';
+import { LoadingIndicator } from './LoadingIndicator';
+import { ErrorFallback } from './ErrorFallback';
+import { useAppStore } from '../stores/appStore';
+import { useRemoteMountContext } from '../hooks/useRemoteMountContext';
+import { recordAppUsage } from '../services/appUsage';
+
+const DEFAULT_SANDBOX = ['allow-scripts', 'allow-same-origin', 'allow-forms', 'allow-popups'];
+
+interface IframeRemoteMountProps {
+  app: IframeRemoteApp;
+  className?: string;
+}
+
+/**
+ * Render a standalone app in a sandboxed iframe and bridge theme, locale,
+ * navigation and SSO hints to it over postMessage. Only messages from the
+ * frame's window on an allowed origin are accepted, and the shell only posts
+ * to the origin that announced `ready`.
+ */
+export function IframeRemoteMount({ app, className = '' }: IframeRemoteMountProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const connectedOriginRef = useRef<string | null>(null);
+  const hasOpenedRef = useRef(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [height, setHeight] = useState<number | null>(null);
+
+  const { state } = useAuth();
+  const { setPageTitle, setBreadcrumbs } = useAppStore();
+  const { basePath, location, theme, locale, shell } = useRemoteMountContext(app);
+  const path = toFramePath(location, basePath);
+  const lastFramePathRef = useRef(path);
+
+  // `url`'s own origin is always allowed; `allowedOrigins` only adds to it
+  const allowedOrigins = useMemo(() => {
+    try {
+      const urls = [app.url, ...(app.allowedOrigins ?? [])];
+      return [...new Set(urls.map((url) => new URL(url).origin))];
+    } catch {
+      return [];
+    }
+  }, [app.url, app.allowedOrigins]);
+
+  // Later navigation goes over the bridge; changing `src` would reload the app
+  const [src] = useState(() => resolveFrameSrc(app.url, path));
+  const isSrcAllowed = src !== null && isAllowedOrigin(src, allowedOrigins);
+
+  const account = state.account;
+  const sso = useMemo<IframeSsoHints | null>(
+    () =>
+      account
+        ? {
+            loginHint: account.idTokenClaims?.login_hint ?? account.username,
+            homeAccountId: account.homeAccountId,
+            tenantId: account.tenantId,
+            sid: account.idTokenClaims?.sid,
+          }
+        : null,
+    [account]
+  );
+
+  const latest = useRef<IframeShellState>({ theme, locale, path, sso });
+  useEffect(() => {
+    latest.current = { theme, locale, path, sso };
+  });
+
+  const post = useCallback((message: ShellToFrameMessage) => {
+    const target = iframeRef.current?.contentWindow;
+    const origin = connectedOriginRef.current;
+    if (target && origin) {
+      target.postMessage({ ...message, protocol: IFRAME_BRIDGE_PROTOCOL }, origin);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isIframeBridgeMessage(event.data)) {
+        return;
+      }
+      if (!isAllowedOrigin(event.origin, allowedOrigins)) {
+        return;
+      }
+
+      const message: unknown = event.data;
+      if (!isFrameToShellMessage(message)) {
+        console.warn(`[IframeRemoteMount] Ignoring malformed message from ${app.id}:`, message);
+        return;
+      }
+
+      switch (message.type) {
+        case 'ready':
+          connectedOriginRef.current = event.origin;
+          lastFramePathRef.current = latest.current.path;
+          post({ type: 'init', payload: latest.current });
+          setIsLoading(false);
+          break;
+        case 'resize':
+          setHeight(Math.max(0, Math.ceil(message.payload.height)));
+          break;
+        case 'location-changed': {
+          const nextLocation = resolveShellLocation(basePath, message.payload.path);
+          if (!nextLocation) {
+            console.warn(
+              `[IframeRemoteMount] Ignoring invalid path from ${app.id}:`,
+              message.payload.path
+            );
+            break;
+          }
+          lastFramePathRef.current = toFramePath(nextLocation, basePath);
+          shell.syncLocation(nextLocation, { replace: message.payload.replace });
+          break;
+        }
+        case 'set-title':
+          setPageTitle(message.payload.title);
+          break;
+        case 'activity':
+          // The idle timeout only sees the shell's own document
+          reportUserActivity();
+          break;
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [app.id, allowedOrigins, basePath, shell, post, setPageTitle]);
+
+  // Shell-initiated navigation (back/forward, breadcrumbs, palette)
+  useEffect(() => {
+    if (path !== lastFramePathRef.current) {
+      lastFramePathRef.current = path;
+      post({ type: 'navigate', payload: { path } });
+    }
+  }, [path, post]);
+
+  useEffect(() => {
+    post({ type: 'theme-changed', payload: { theme } });
+  }, [theme, post]);
+
+  useEffect(() => {
+    post({ type: 'locale-changed', payload: { locale } });
+  }, [locale, post]);
+
+  useEffect(() => {
+    post({ type: 'sso-changed', payload: { sso } });
+  }, [sso, post]);
+
+  useEffect(() => {
+    const sandbox = app.sandbox ?? DEFAULT_SANDBOX;
+    if (
+      allowedOrigins.includes(window.location.origin) &&
+      sandbox.includes('allow-scripts') &&
+      sandbox.includes('allow-same-origin')
+    ) {
+      console.warn(
+        `[IframeRemoteMount] ${app.id} is same-origin with the shell; allow-scripts with allow-same-origin lets it escape the sandbox`
+      );
+    }
+  }, [app.id, app.sandbox, allowedOrigins]);
+
+  useEffect(() => {
+    return () => {
+      setPageTitle(null);
+      setBreadcrumbs([]);
+    };
+  }, [setPageTitle, setBreadcrumbs]);
+
+  const handleLoad = () => {
+    // Frames without the bridge never send `ready`; show them once loaded
+    setIsLoading(false);
+    if (!hasOpenedRef.current) {
+      hasOpenedRef.current = true;
+      recordAppUsage(app.id);
+      publishMessage('shell:app-opened', { appId: app.id });
+    }
+  };
+
+  const error = isSrcAllowed
+    ? null
+    : new ShellError(ErrorCode.REMOTE_LOAD_FAILED, ERROR_MESSAGES.REMOTE_APP.LOAD_FAILED(app.name));
+
+  return (
+    <div className="relative min-h-[calc(100vh-70px)]">
+      {isLoading && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/90 z-10">
+          <LoadingIndicator />
+        </div>
+      )}
+
+      {error ? (
+        <div className="absolute inset-0 flex items-center justify-center z-10">
+          <ErrorFallback error={error} appName={app.name} />
+        </div>
+      ) : (
+        <iframe
+          ref={iframeRef}
+          src={src ?? undefined}
+          title={app.name}
+          sandbox={(app.sandbox ?? DEFAULT_SANDBOX).join(' ')}
+          allow={app.allow}
+          referrerPolicy="strict-origin-when-cross-origin"
+          onLoad={handleLoad}
+          className={`block w-full border-0 min-h-[calc(100vh-70px)] ${className}`}
+          style={height === null ? undefined : { height }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Path of a shell location relative to the app's base, always starting with `/`
+ */
+function toFramePath(location: string, basePath: string): string {
+  const rest = location.slice(basePath.length);
+  return rest.startsWith('/') ? rest : `/${rest}`;
+}
+
+/**
+ * Deep links resolve against the app URL and must stay on its origin
+ */
+function resolveFrameSrc(appUrl: string, path: string): string | null {
+  try {
+    const base = new URL(appUrl);
+    if (path === '/') {
+      return base.href;
+    }
+    const target = new URL(`${base.pathname.replace(/\/$/, '')}${path}`, base.origin);
+    return target.origin === base.origin ? target.href : base.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a path reported by the frame onto the shell's URL space. Dot segments
+ * are resolved first, so the result must still sit under `basePath`.
+ */
+function resolveShellLocation(basePath: string, framePath: string): string | null {
+  const normalized = framePath.startsWith('/') ? framePath : `/${framePath}`;
+  const resolved = new URL(`${basePath}${normalized === '/' ? '' : normalized}`, window.location.origin);
+  const nextLocation = `${resolved.pathname}${resolved.search}${resolved.hash}`;
+  const rest = nextLocation.slice(basePath.length);
+
+  return nextLocation.startsWith(basePath) &&
+    (rest === '' || /^[/?#]/.test(rest)) &&
+    isValidReturnUrl(nextLocation)
+    ? nextLocation
+    : null;
+}
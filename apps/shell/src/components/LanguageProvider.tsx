@@ -0,0 +1,16 @@
+import { I18nProvider } from '@one-portal/ui';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+type LanguageProviderProps = {
+  children: React.ReactNode;
+};
+
+/**
+ * Provides the language preference to translations. Rendered above the auth
+ * provider so its dialogs follow the language too.
+ */
+export function LanguageProvider({ children }: LanguageProviderProps) {
+  const language = usePreferencesStore((state) => state.preferences.language);
+
+  return <I18nProvider locale={language}>{children}</I18nProvider>;
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Spinner } from '@one-portal/ui';
+import { useShellTranslation } from '../i18n/messages';
 
 interface LoadingIndicatorProps {
   delay?: number;
@@ -10,8 +11,10 @@ interface LoadingIndicatorProps {
 export function LoadingIndicator({
   delay = 200,
   className = '',
-  message = 'Loading application...',
+  message,
 }: LoadingIndicatorProps) {
+  const { t } = useShellTranslation();
+  const label = message ?? t('app.loading');
   const [show, setShow] = useState(false);
 
   useEffect(() => {
@@ -31,10 +34,10 @@ export function LoadingIndicator({
       className={`flex min-h-[400px] flex-col items-center justify-center gap-4 ${className}`}
       role="status"
       aria-live="polite"
-      aria-label={message}
+      aria-label={label}
     >
       <Spinner className="h-12 w-12" />
-      <p className="text-sm text-muted-foreground">{message}</p>
+      <p className="text-sm text-muted-foreground">{label}</p>
     </div>
   );
 }
@@ -1,29 +1,91 @@
 import { useEffect, useRef, useState } from 'react';
-import type { RemoteApp } from '@one-portal/types';
-import type { Root } from 'react-dom/client';
+import {
+  isIframeRemoteApp,
+  publishMessage,
+  type FederatedRemoteApp,
+  type RemoteApp,
+} from '@one-portal/types';
 import { RemoteErrorBoundary } from '@one-portal/auth';
 import { LoadingIndicator } from './LoadingIndicator';
 import { ErrorFallback } from './ErrorFallback';
+import { IframeRemoteMount } from './IframeRemoteMount';
 import { useAppStore } from '../stores/appStore';
-import { loadAndMountRemote, unmountRemote } from '../services/remoteLoader';
+import { useCommandStore } from '../stores/commandStore';
+import { useRemoteMountContext } from '../hooks/useRemoteMountContext';
+import { recordAppUsage } from '../services/appUsage';
+import {
+  DEFAULT_KEEP_ALIVE_LIMIT,
+  getParkedRemotes,
+  loadAndMountRemote,
+  parkRemote,
+  restoreRemote,
+  unmountRemote,
+  updateRemote,
+} from '../services/remoteLoader';
+import type { StyleIsolation } from '../services/remoteStyles';
 
 interface RemoteMountProps {
   app: RemoteApp;
   className?: string;
+  /** Overrides the app's configured `styleIsolation` (federated apps only) */
+  styleIsolation?: StyleIsolation;
 }
 
-export function RemoteMount({ app, className = '' }: RemoteMountProps) {
+export function RemoteMount({ app, ...props }: RemoteMountProps) {
+  // Keyed by app so switching apps on the same route starts a fresh frame
+  return isIframeRemoteApp(app) ? (
+    <IframeRemoteMount key={app.id} app={app} className={props.className} />
+  ) : (
+    <FederatedRemoteMount app={app} {...props} />
+  );
+}
+
+interface FederatedRemoteMountProps extends Omit<RemoteMountProps, 'app'> {
+  app: FederatedRemoteApp;
+}
+
+function FederatedRemoteMount({
+  app,
+  className = '',
+  styleIsolation,
+}: FederatedRemoteMountProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const instanceRef = useRef<Root | null>(null);
+  const isMountedRef = useRef(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
 
-  const { setLoading, setError: setStoreError } = useAppStore();
+  const {
+    setLoading,
+    setError: setStoreError,
+    setParkedRemotes,
+    setPageTitle,
+    setBreadcrumbs,
+  } = useAppStore();
+  const clearActions = useCommandStore((state) => state.clearActions);
+  const keepAliveLimit = useAppStore(
+    (state) => state.shellConfig?.keepAliveLimit ?? DEFAULT_KEEP_ALIVE_LIMIT
+  );
   const containerId = `remote-app-container-${app.id}`;
 
+  const mountContext = useRemoteMountContext(app);
+  const mountContextRef = useRef(mountContext);
+  mountContextRef.current = mountContext;
+
   useEffect(() => {
     let isMounted = true;
 
+    // Evicted remotes were unmounted for real; their actions would call into a dead root
+    const clearEvictedActions = (evictedScopes: string[]) => {
+      useAppStore
+        .getState()
+        .availableApps.filter(
+          (candidate) =>
+            !isIframeRemoteApp(candidate) && evictedScopes.includes(candidate.scope)
+        )
+        .forEach((candidate) => clearActions(candidate.id));
+    };
+
     const loadAndMount = async () => {
       try {
         setIsLoading(true);
@@ -31,22 +93,46 @@ export function RemoteMount({ app, className = '' }: RemoteMountProps) {
 
         await new Promise(resolve => setTimeout(resolve, 0));
 
-        const container = document.getElementById(containerId);
+        const container = containerRef.current;
         if (!container) {
           throw new Error(`Container element with ID "${containerId}" not found`);
         }
 
-        const instance = await loadAndMountRemote(
-          app.remoteEntryUrl,
-          app.scope,
-          containerId
-        );
+        const restored =
+          app.keepAlive && (await restoreRemote(app.scope, container, mountContextRef.current));
 
-        if (isMounted) {
-          instanceRef.current = instance;
-          setIsLoading(false);
-          setLoading(false);
+        if (restored) {
+          setParkedRemotes(getParkedRemotes());
+        } else {
+          await loadAndMountRemote(
+            app.remoteEntryUrl,
+            app.scope,
+            container,
+            mountContextRef.current,
+            {
+              fallbackUrls: app.fallbackEntryUrls,
+              versionPolicy: app.versionPolicy,
+              styleIsolation: styleIsolation ?? app.styleIsolation,
+            }
+          );
         }
+        isMountedRef.current = true;
+
+        if (!isMounted) {
+          isMountedRef.current = false;
+          if (app.keepAlive) {
+            void parkRemote(app.scope, keepAliveLimit).then(clearEvictedActions);
+          } else {
+            void unmountRemote(app.scope);
+            clearActions(app.id);
+          }
+          return;
+        }
+
+        recordAppUsage(app.id);
+        publishMessage('shell:app-opened', { appId: app.id });
+        setIsLoading(false);
+        setLoading(false);
       } catch (err) {
         console.error(`[RemoteMount] Load failed for ${app.name}:`, err);
         if (isMounted) {
@@ -64,12 +150,49 @@ export function RemoteMount({ app, className = '' }: RemoteMountProps) {
     return () => {
       isMounted = false;
 
-      if (instanceRef.current) {
-        unmountRemote(app.scope);
-        instanceRef.current = null;
+      setPageTitle(null);
+      setBreadcrumbs([]);
+
+      if (isMountedRef.current) {
+        isMountedRef.current = false;
+
+        if (app.keepAlive) {
+          void parkRemote(app.scope, keepAliveLimit).then((evicted) => {
+            clearEvictedActions(evicted);
+            setParkedRemotes(getParkedRemotes());
+          });
+        } else {
+          void unmountRemote(app.scope);
+          clearActions(app.id);
+        }
       }
     };
-  }, [app.id, app.name, app.remoteEntryUrl, app.scope, containerId, setLoading, setStoreError]);
+  }, [
+    app.id,
+    app.name,
+    app.remoteEntryUrl,
+    app.fallbackEntryUrls,
+    app.versionPolicy,
+    app.styleIsolation,
+    styleIsolation,
+    app.scope,
+    app.keepAlive,
+    containerId,
+    keepAliveLimit,
+    loadAttempt,
+    setLoading,
+    setStoreError,
+    setParkedRemotes,
+    setPageTitle,
+    setBreadcrumbs,
+    clearActions,
+  ]);
+
+  useEffect(() => {
+    if (isMountedRef.current) {
+      void updateRemote(app.scope, mountContext);
+    }
+  }, [app.scope, mountContext]);
 
   return (
     <RemoteErrorBoundary
@@ -96,10 +219,11 @@ export function RemoteMount({ app, className = '' }: RemoteMountProps) {
           <div className="absolute inset-0 flex items-center justify-center z-10">
             <ErrorFallback
               error={error}
+              appName={app.name}
               onRetry={() => {
                 setError(null);
                 setStoreError(null);
-                setIsLoading(true);
+                setLoadAttempt((attempt) => attempt + 1);
               }}
             />
           </div>
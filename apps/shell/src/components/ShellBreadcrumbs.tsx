@@ -0,0 +1,49 @@
+import { Fragment } from "react";
+import { Link, useRouterState } from "@tanstack/react-router";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@one-portal/ui";
+import { useAppStore } from "../stores/appStore";
+
+/**
+ * Breadcrumbs reported by the active remote via `shell.setBreadcrumbs`
+ */
+export function ShellBreadcrumbs() {
+  const breadcrumbs = useAppStore((state) => state.breadcrumbs);
+  const pathname = useRouterState({ select: (s) => s.location.pathname });
+  const basePath = pathname.match(/^\/apps\/[^/]+/)?.[0];
+
+  if (!basePath || breadcrumbs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Breadcrumb className="hidden lg:block">
+      <BreadcrumbList>
+        {breadcrumbs.map((crumb, index) => {
+          const isLast = index === breadcrumbs.length - 1;
+
+          return (
+            <Fragment key={`${crumb.label}-${index}`}>
+              <BreadcrumbItem>
+                {isLast || crumb.path === undefined ? (
+                  <BreadcrumbPage>{crumb.label}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <Link to={`${basePath}${crumb.path}`}>{crumb.label}</Link>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+              {!isLast && <BreadcrumbSeparator />}
+            </Fragment>
+          );
+        })}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
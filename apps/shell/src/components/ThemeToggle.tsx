@@ -6,7 +6,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@one-portal/ui';
-import { useTheme } from './ThemeProvider';
+import { useTheme } from '../hooks/useTheme';
 
 export function ThemeToggle() {
   const { theme, setTheme } = useTheme();
@@ -0,0 +1,13 @@
+import type { IdleSessionConfig } from "@one-portal/auth";
+
+/**
+ * Idle sign-out for the Shell and every remote it hosts
+ *
+ * - idleMinutes: inactivity (in any tab) before signing out
+ * - warningMinutes: how long the "Are you still there?" dialog shows first
+ */
+export const IDLE_SESSION: IdleSessionConfig = {
+  idleMinutes: 30,
+  warningMinutes: 2,
+  postLogoutRedirectUri: `${window.location.origin}/sign-in?signed-out=true`,
+};
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { useAuth } from '@one-portal/auth/hooks';
+import type { RemoteApp } from '@one-portal/types';
+
+/**
+ * Whether the signed-in user may open `app`.
+ * Apps without `requiredRoles` are open to everyone.
+ */
+export function canOpenApp(
+  app: RemoteApp,
+  hasRole: (roles: string | string[]) => boolean
+): boolean {
+  return !app.requiredRoles?.length || hasRole(app.requiredRoles);
+}
+
+/**
+ * Filter `apps` down to those the signed-in user holds a role for
+ */
+export function useAuthorizedApps(apps: RemoteApp[]): RemoteApp[] {
+  const { hasRole } = useAuth();
+
+  return useMemo(
+    () => apps.filter((app) => canOpenApp(app, hasRole)),
+    [apps, hasRole]
+  );
+}
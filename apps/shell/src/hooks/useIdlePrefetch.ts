@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { useAuth } from '@one-portal/auth/hooks';
+import { isFederatedRemoteApp, type RemoteApp } from '@one-portal/types';
+import { getMostUsedApps } from '../services/appUsage';
+import { prefetchRemote } from '../services/remoteLoader';
+
+const IDLE_PREFETCH_COUNT = 2;
+const IDLE_FALLBACK_DELAY_MS = 2_000;
+
+function whenIdle(callback: () => void): () => void {
+  if (typeof window.requestIdleCallback === 'function') {
+    const handle = window.requestIdleCallback(callback);
+    return () => window.cancelIdleCallback(handle);
+  }
+
+  const handle = setTimeout(callback, IDLE_FALLBACK_DELAY_MS);
+  return () => clearTimeout(handle);
+}
+
+/**
+ * Warm the user's most-used remotes while the browser is idle,
+ * one remote per idle period. Iframe apps are not prefetched.
+ */
+export function useIdlePrefetch(apps: RemoteApp[]): void {
+  const { state } = useAuth();
+  const { isAuthenticated } = state;
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    const queue = getMostUsedApps(apps.filter(isFederatedRemoteApp), IDLE_PREFETCH_COUNT);
+    let cancelIdle: (() => void) | undefined;
+    let cancelled = false;
+
+    const warmNext = () => {
+      const app = queue.shift();
+      if (!app || cancelled) {
+        return;
+      }
+
+      cancelIdle = whenIdle(() => {
+        void prefetchRemote(app.remoteEntryUrl, app.scope, {
+          fallbackUrls: app.fallbackEntryUrls,
+          versionPolicy: app.versionPolicy,
+        }).then(warmNext);
+      });
+    };
+
+    warmNext();
+
+    return () => {
+      cancelled = true;
+      cancelIdle?.();
+    };
+  }, [apps, isAuthenticated]);
+}
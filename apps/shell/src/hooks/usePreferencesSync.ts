@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { subscribeToMessages } from '@one-portal/types';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+/**
+ * Apply the active language to the document and follow preference
+ * changes made in other tabs.
+ */
+export function usePreferencesSync(): void {
+  const language = usePreferencesStore((state) => state.preferences.language);
+  const receivePreferences = usePreferencesStore((state) => state.receivePreferences);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(
+    () =>
+      subscribeToMessages('shell:preferences-changed', (event) => {
+        if (!event.sameWindow) {
+          receivePreferences(event.payload.preferences);
+        }
+      }),
+    [receivePreferences]
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useAuth } from '@one-portal/auth/hooks';
+import type { RemoteApp } from '@one-portal/types';
+import { useHealthStore } from '../stores/healthStore';
+
+const HEALTH_CHECK_INTERVAL_MS = 5 * 60_000;
+
+/**
+ * Probe the given remotes once signed in and then periodically, so failing
+ * apps are flagged before anyone opens them. Checks are skipped while the
+ * page is hidden and run again when it becomes visible.
+ */
+export function useRemoteHealthChecks(apps: RemoteApp[]): void {
+  const { state } = useAuth();
+  const { isAuthenticated } = state;
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    let lastRunAt = 0;
+
+    const check = () => {
+      if (document.visibilityState !== 'visible') {
+        return;
+      }
+      lastRunAt = Date.now();
+      void useHealthStore.getState().checkHealth(apps);
+    };
+
+    // Catch up on checks skipped while hidden, without probing on every tab switch
+    const onVisibilityChange = () => {
+      if (Date.now() - lastRunAt >= HEALTH_CHECK_INTERVAL_MS) {
+        check();
+      }
+    };
+
+    check();
+    const intervalId = setInterval(check, HEALTH_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [apps, isAuthenticated]);
+}
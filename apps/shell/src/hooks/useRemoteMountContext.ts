@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useRouter, useRouterState } from '@tanstack/react-router';
+import { toast } from '@one-portal/ui';
+import { useAuth } from '@one-portal/auth/hooks';
+import type {
+  RemoteAccount,
+  RemoteApp,
+  RemoteMountContext,
+  ShellHostApi,
+  Theme,
+} from '@one-portal/types';
+import { useTheme } from './useTheme';
+import { useAppStore } from '../stores/appStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { useCommandStore } from '../stores/commandStore';
+
+/**
+ * Build the lifecycle context handed to a remote on mount and update.
+ *
+ * The returned object changes identity whenever theme, locale, location or
+ * the signed-in account change, so callers can forward it via `updateRemote`.
+ * The `shell` host API stays stable for the lifetime of the app and always
+ * reads the latest shell state.
+ */
+export function useRemoteMountContext(app: RemoteApp): RemoteMountContext {
+  const { theme } = useTheme();
+  const { state, acquireToken } = useAuth();
+  const router = useRouter();
+  const navigate = useNavigate();
+  const href = useRouterState({ select: (s) => s.location.href });
+  const locale = usePreferencesStore((s) => s.preferences.language);
+  const setPageTitle = useAppStore((s) => s.setPageTitle);
+  const setBreadcrumbs = useAppStore((s) => s.setBreadcrumbs);
+  const registerMenu = useCommandStore((s) => s.registerMenu);
+  const registerAction = useCommandStore((s) => s.registerAction);
+  const account = state.account;
+  const appId = app.id;
+  const basePath = `/apps/${appId}`;
+
+  // Only forward the part of the URL this remote owns
+  const location = isUnderBasePath(href, basePath) ? href : basePath;
+
+  const user = useMemo<RemoteAccount | null>(
+    () =>
+      account
+        ? {
+            homeAccountId: account.homeAccountId,
+            username: account.username,
+            name: account.name,
+          }
+        : null,
+    [account]
+  );
+
+  const latest = useRef({ theme, user, acquireToken, navigate, router });
+  const themeListeners = useRef(new Set<(theme: Theme) => void>());
+
+  useEffect(() => {
+    latest.current = { theme, user, acquireToken, navigate, router };
+  });
+
+  useEffect(() => {
+    themeListeners.current.forEach((listener) => listener(theme));
+  }, [theme]);
+
+  const shell = useMemo<ShellHostApi>(
+    () => ({
+      navigate: (appId, path = '') => {
+        void latest.current.navigate({ to: `/apps/${appId}${path}` });
+      },
+      notify: (message, level = 'info') => {
+        toast[level](message);
+      },
+      setTitle: (title) => setPageTitle(title),
+      setBreadcrumbs: (breadcrumbs) => setBreadcrumbs(breadcrumbs),
+      getTheme: () => latest.current.theme,
+      onThemeChange: (listener) => {
+        const listeners = themeListeners.current;
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      getUser: () => latest.current.user,
+      requestToken: (scopes) => latest.current.acquireToken(scopes),
+      syncLocation: (nextLocation, options) => {
+        const { router: shellRouter } = latest.current;
+
+        if (!isUnderBasePath(nextLocation, basePath)) {
+          console.warn(`[Shell] Ignoring location outside ${basePath}: ${nextLocation}`);
+          return;
+        }
+        if (nextLocation === shellRouter.state.location.href) {
+          return;
+        }
+        if (options?.replace) {
+          shellRouter.history.replace(nextLocation);
+        } else {
+          shellRouter.history.push(nextLocation);
+        }
+      },
+      registerMenu: (items) => registerMenu(appId, items),
+      registerAction: (action) => registerAction(appId, action),
+    }),
+    [appId, basePath, setPageTitle, setBreadcrumbs, registerMenu, registerAction]
+  );
+
+  return useMemo<RemoteMountContext>(
+    () => ({
+      basePath,
+      location,
+      theme,
+      locale,
+      auth: {
+        getAccount: () => user,
+        acquireToken,
+      },
+      shell,
+    }),
+    [basePath, location, theme, locale, user, acquireToken, shell]
+  );
+}
+
+function isUnderBasePath(location: string, basePath: string): boolean {
+  if (!location.startsWith(basePath)) {
+    return false;
+  }
+  const rest = location.slice(basePath.length);
+  return rest === '' || /^[/?#]/.test(rest);
+}
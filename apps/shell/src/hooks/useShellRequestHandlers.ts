@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { toast } from '@one-portal/ui';
+import { handleMessageRequest } from '@one-portal/types';
+
+/**
+ * Answer shell requests sent by remotes over the message bus
+ */
+export function useShellRequestHandlers(): void {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const unsubscribers = [
+      handleMessageRequest('shell:open-app', async ({ appId, path = '' }) => {
+        await navigate({ to: `/apps/${appId}${path}` });
+      }),
+      handleMessageRequest('shell:notify', ({ message, level = 'info' }) => {
+        toast[level](message);
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [navigate]);
+}
@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import type { Theme } from '@one-portal/types';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+/**
+ * Current theme preference; `setTheme` persists under `oneportal:preferences`
+ * and broadcasts the change to remotes and other tabs.
+ */
+export function useTheme(): { theme: Theme; setTheme: (theme: Theme) => void } {
+  const theme = usePreferencesStore((state) => state.preferences.theme);
+  const updatePreferences = usePreferencesStore((state) => state.updatePreferences);
+
+  return useMemo(
+    () => ({
+      theme,
+      setTheme: (newTheme: Theme) => updatePreferences({ theme: newTheme }),
+    }),
+    [theme, updatePreferences]
+  );
+}
@@ -0,0 +1,327 @@
+import {
+  registerMessages,
+  type LocalizedCatalogs,
+  type MessageCatalog,
+} from '@one-portal/types';
+import { useTranslation } from '@one-portal/ui';
+
+const shellMessages = {
+  'nav.home': 'Home',
+  'header.signIn': 'Sign In',
+  'header.userMenu': 'User menu',
+  'header.profile': 'Profile',
+  'header.settings': 'Settings',
+  'header.language': 'Language',
+  'header.logOut': 'Log out',
+  'header.switchAccount': 'Switch account',
+  'header.addAccount': 'Add another account',
+  'common.goHome': 'Go to Home',
+  'app.loading': 'Loading application...',
+  'app.notFound.title': 'Application Not Found',
+  'app.notFound.description': 'The application "{appId}" could not be found.',
+  'app.error.title': 'Failed to Load {appName}',
+  'app.error.description': 'We encountered a problem loading this application',
+  'app.error.details': 'Error Details',
+  'app.error.suggestions': 'What you can try:',
+  'app.error.checkConnection': 'Check your internet connection',
+  'app.error.refresh': 'Try refreshing the page',
+  'app.error.contactSupport': 'Contact support if the problem persists',
+  'app.error.retry': 'Try Again',
+  'app.error.unexpected': 'An unexpected error occurred',
+  'forbidden.title': '403 - Access Denied',
+  'forbidden.app': "You don't have permission to open {appName}",
+  'forbidden.page': "You don't have permission to view this page",
+  'nav.degraded': '{appName} may be unavailable',
+  'home.apps': 'Your applications',
+  'home.open': 'Open',
+  'health.status.healthy': 'Operational',
+  'health.status.degraded': 'Degraded',
+  'health.status.unknown': 'Checking',
+  'health.summary.operational': 'All systems operational',
+  'health.summary.degraded': {
+    one: '{count} app degraded',
+    other: '{count} apps degraded',
+  },
+  'health.summary.checking': 'Checking app status...',
+  'health.lastChecked': 'Last checked {time}',
+  'health.notChecked': 'Not checked yet',
+  'health.checkNow': 'Check now',
+  'health.failed.reachable': 'Entry point is unreachable',
+  'health.failed.evaluates': 'App bundle failed to load',
+  'health.failed.exportsMount': 'App bundle does not provide a mount function',
+  'header.diagnostics': 'Diagnostics',
+  'diagnostics.title': 'Diagnostics',
+  'diagnostics.description':
+    'Contract and shared dependency versions of the shell and each remote, read from their build manifests.',
+  'diagnostics.refresh': 'Refresh',
+  'diagnostics.dependency': 'Dependency',
+  'diagnostics.contract': 'Contract version',
+  'diagnostics.build': 'Build',
+  'diagnostics.notShared': 'Not shared',
+  'diagnostics.noManifest': 'No manifest',
+  'diagnostics.level.ok': 'Compatible',
+  'diagnostics.level.info': 'Compatible',
+  'diagnostics.level.warning': 'Warnings',
+  'diagnostics.level.error': 'Incompatible',
+  'diagnostics.timings': 'Load timings',
+  'diagnostics.timing.entry-fetch': 'Entry fetch',
+  'diagnostics.timing.evaluate': 'Evaluate',
+  'diagnostics.timing.bootstrap': 'Bootstrap',
+  'diagnostics.timing.mount': 'Mount',
+  'diagnostics.timing.first-render': 'First render',
+  'diagnostics.timing.unmount': 'Unmount',
+  'palette.open': 'Search',
+  'palette.placeholder': 'Search apps, pages and actions...',
+  'palette.empty': 'No results found.',
+  'palette.recent': 'Recent',
+  'palette.apps': 'Apps',
+  'palette.pages': 'Pages',
+  'palette.actions': 'Actions',
+  'palette.actionFailed': '"{label}" could not be completed',
+  'forbidden.help':
+    "Access is granted through your organization's role assignments. Contact your administrator if you believe you should have access.",
+} satisfies MessageCatalog;
+
+declare module '@one-portal/types' {
+  interface I18nNamespaces {
+    shell: typeof shellMessages;
+  }
+}
+
+const shellCatalogs: LocalizedCatalogs<'shell'> = {
+  en: shellMessages,
+  es: {
+    'nav.home': 'Inicio',
+    'header.signIn': 'Iniciar sesión',
+    'header.userMenu': 'Menú de usuario',
+    'header.profile': 'Perfil',
+    'header.settings': 'Configuración',
+    'header.language': 'Idioma',
+    'header.logOut': 'Cerrar sesión',
+    'header.switchAccount': 'Cambiar de cuenta',
+    'header.addAccount': 'Agregar otra cuenta',
+    'common.goHome': 'Ir al inicio',
+    'app.loading': 'Cargando aplicación...',
+    'app.notFound.title': 'Aplicación no encontrada',
+    'app.notFound.description': 'No se encontró la aplicación "{appId}".',
+    'app.error.title': 'No se pudo cargar {appName}',
+    'app.error.description': 'Se produjo un problema al cargar esta aplicación',
+    'app.error.details': 'Detalles del error',
+    'app.error.suggestions': 'Qué puede intentar:',
+    'app.error.checkConnection': 'Compruebe su conexión a internet',
+    'app.error.refresh': 'Actualice la página',
+    'app.error.contactSupport': 'Contacte con soporte si el problema persiste',
+    'app.error.retry': 'Reintentar',
+    'app.error.unexpected': 'Se produjo un error inesperado',
+    'nav.degraded': 'Es posible que {appName} no esté disponible',
+    'home.apps': 'Tus aplicaciones',
+    'home.open': 'Abrir',
+    'health.status.healthy': 'Operativa',
+    'health.status.degraded': 'Degradada',
+    'health.status.unknown': 'Comprobando',
+    'health.summary.operational': 'Todos los sistemas operativos',
+    'health.summary.degraded': {
+      one: '{count} aplicación degradada',
+      other: '{count} aplicaciones degradadas',
+    },
+    'health.summary.checking': 'Comprobando el estado de las aplicaciones...',
+    'health.lastChecked': 'Última comprobación: {time}',
+    'health.notChecked': 'Aún sin comprobar',
+    'health.checkNow': 'Comprobar ahora',
+    'health.failed.reachable': 'No se puede acceder al punto de entrada',
+    'health.failed.evaluates': 'No se pudo cargar el paquete de la aplicación',
+    'health.failed.exportsMount': 'El paquete de la aplicación no proporciona una función mount',
+    'header.diagnostics': 'Diagnóstico',
+    'diagnostics.title': 'Diagnóstico',
+    'diagnostics.description':
+      'Versiones del contrato y de las dependencias compartidas del shell y de cada remoto, según sus manifiestos de compilación.',
+    'diagnostics.refresh': 'Actualizar',
+    'diagnostics.dependency': 'Dependencia',
+    'diagnostics.contract': 'Versión del contrato',
+    'diagnostics.build': 'Compilación',
+    'diagnostics.notShared': 'No compartida',
+    'diagnostics.noManifest': 'Sin manifiesto',
+    'diagnostics.level.ok': 'Compatible',
+    'diagnostics.level.info': 'Compatible',
+    'diagnostics.level.warning': 'Advertencias',
+    'diagnostics.level.error': 'Incompatible',
+    'diagnostics.timings': 'Tiempos de carga',
+    'diagnostics.timing.entry-fetch': 'Descarga de la entrada',
+    'diagnostics.timing.evaluate': 'Evaluación',
+    'diagnostics.timing.bootstrap': 'Arranque',
+    'diagnostics.timing.mount': 'Montaje',
+    'diagnostics.timing.first-render': 'Primer renderizado',
+    'diagnostics.timing.unmount': 'Desmontaje',
+    'palette.open': 'Buscar',
+    'palette.placeholder': 'Buscar aplicaciones, páginas y acciones...',
+    'palette.empty': 'No se encontraron resultados.',
+    'palette.recent': 'Recientes',
+    'palette.apps': 'Aplicaciones',
+    'palette.pages': 'Páginas',
+    'palette.actions': 'Acciones',
+    'palette.actionFailed': 'No se pudo completar "{label}"',
+    'forbidden.title': '403 - Acceso denegado',
+    'forbidden.app': 'No tiene permiso para abrir {appName}',
+    'forbidden.page': 'No tiene permiso para ver esta página',
+    'forbidden.help':
+      'El acceso se concede mediante las asignaciones de roles de su organización. Contacte con su administrador si cree que debería tener acceso.',
+  },
+  fr: {
+    'nav.home': 'Accueil',
+    'header.signIn': 'Se connecter',
+    'header.userMenu': 'Menu utilisateur',
+    'header.profile': 'Profil',
+    'header.settings': 'Paramètres',
+    'header.language': 'Langue',
+    'header.logOut': 'Se déconnecter',
+    'header.switchAccount': 'Changer de compte',
+    'header.addAccount': 'Ajouter un autre compte',
+    'common.goHome': "Aller à l'accueil",
+    'app.loading': "Chargement de l'application...",
+    'app.notFound.title': 'Application introuvable',
+    'app.notFound.description': 'L\'application "{appId}" est introuvable.',
+    'app.error.title': 'Échec du chargement de {appName}',
+    'app.error.description': 'Un problème est survenu lors du chargement de cette application',
+    'app.error.details': "Détails de l'erreur",
+    'app.error.suggestions': 'Ce que vous pouvez essayer :',
+    'app.error.checkConnection': 'Vérifiez votre connexion internet',
+    'app.error.refresh': 'Actualisez la page',
+    'app.error.contactSupport': 'Contactez le support si le problème persiste',
+    'app.error.retry': 'Réessayer',
+    'app.error.unexpected': "Une erreur inattendue s'est produite",
+    'nav.degraded': '{appName} est peut-être indisponible',
+    'home.apps': 'Vos applications',
+    'home.open': 'Ouvrir',
+    'health.status.healthy': 'Opérationnelle',
+    'health.status.degraded': 'Dégradée',
+    'health.status.unknown': 'Vérification',
+    'health.summary.operational': 'Tous les systèmes sont opérationnels',
+    'health.summary.degraded': {
+      one: '{count} application dégradée',
+      other: '{count} applications dégradées',
+    },
+    'health.summary.checking': "Vérification de l'état des applications...",
+    'health.lastChecked': 'Dernière vérification : {time}',
+    'health.notChecked': 'Pas encore vérifiée',
+    'health.checkNow': 'Vérifier maintenant',
+    'health.failed.reachable': "Le point d'entrée est inaccessible",
+    'health.failed.evaluates': "Le bundle de l'application n'a pas pu être chargé",
+    'health.failed.exportsMount': "Le bundle de l'application ne fournit pas de fonction mount",
+    'header.diagnostics': 'Diagnostic',
+    'diagnostics.title': 'Diagnostic',
+    'diagnostics.description':
+      "Versions du contrat et des dépendances partagées du shell et de chaque remote, d'après leurs manifestes de build.",
+    'diagnostics.refresh': 'Actualiser',
+    'diagnostics.dependency': 'Dépendance',
+    'diagnostics.contract': 'Version du contrat',
+    'diagnostics.build': 'Build',
+    'diagnostics.notShared': 'Non partagée',
+    'diagnostics.noManifest': 'Aucun manifeste',
+    'diagnostics.level.ok': 'Compatible',
+    'diagnostics.level.info': 'Compatible',
+    'diagnostics.level.warning': 'Avertissements',
+    'diagnostics.level.error': 'Incompatible',
+    'diagnostics.timings': 'Temps de chargement',
+    'diagnostics.timing.entry-fetch': "Téléchargement de l'entrée",
+    'diagnostics.timing.evaluate': 'Évaluation',
+    'diagnostics.timing.bootstrap': 'Amorçage',
+    'diagnostics.timing.mount': 'Montage',
+    'diagnostics.timing.first-render': 'Premier rendu',
+    'diagnostics.timing.unmount': 'Démontage',
+    'palette.open': 'Rechercher',
+    'palette.placeholder': 'Rechercher des applications, pages et actions...',
+    'palette.empty': 'Aucun résultat.',
+    'palette.recent': 'Récents',
+    'palette.apps': 'Applications',
+    'palette.pages': 'Pages',
+    'palette.actions': 'Actions',
+    'palette.actionFailed': "\"{label}\" n'a pas pu aboutir",
+    'forbidden.title': '403 - Accès refusé',
+    'forbidden.app': "Vous n'êtes pas autorisé à ouvrir {appName}",
+    'forbidden.page': "Vous n'êtes pas autorisé à consulter cette page",
+    'forbidden.help':
+      "L'accès est accordé via les attributions de rôles de votre organisation. Contactez votre administrateur si vous pensez devoir y avoir accès.",
+  },
+  de: {
+    'nav.home': 'Start',
+    'header.signIn': 'Anmelden',
+    'header.userMenu': 'Benutzermenü',
+    'header.profile': 'Profil',
+    'header.settings': 'Einstellungen',
+    'header.language': 'Sprache',
+    'header.logOut': 'Abmelden',
+    'header.switchAccount': 'Konto wechseln',
+    'header.addAccount': 'Weiteres Konto hinzufügen',
+    'common.goHome': 'Zur Startseite',
+    'app.loading': 'Anwendung wird geladen...',
+    'app.notFound.title': 'Anwendung nicht gefunden',
+    'app.notFound.description': 'Die Anwendung "{appId}" wurde nicht gefunden.',
+    'app.error.title': '{appName} konnte nicht geladen werden',
+    'app.error.description': 'Beim Laden dieser Anwendung ist ein Problem aufgetreten',
+    'app.error.details': 'Fehlerdetails',
+    'app.error.suggestions': 'Was Sie versuchen können:',
+    'app.error.checkConnection': 'Prüfen Sie Ihre Internetverbindung',
+    'app.error.refresh': 'Laden Sie die Seite neu',
+    'app.error.contactSupport': 'Wenden Sie sich an den Support, falls das Problem weiterhin besteht',
+    'app.error.retry': 'Erneut versuchen',
+    'app.error.unexpected': 'Ein unerwarteter Fehler ist aufgetreten',
+    'nav.degraded': '{appName} ist möglicherweise nicht verfügbar',
+    'home.apps': 'Ihre Anwendungen',
+    'home.open': 'Öffnen',
+    'health.status.healthy': 'Betriebsbereit',
+    'health.status.degraded': 'Beeinträchtigt',
+    'health.status.unknown': 'Wird geprüft',
+    'health.summary.operational': 'Alle Systeme betriebsbereit',
+    'health.summary.degraded': {
+      one: '{count} App beeinträchtigt',
+      other: '{count} Apps beeinträchtigt',
+    },
+    'health.summary.checking': 'App-Status wird geprüft...',
+    'health.lastChecked': 'Zuletzt geprüft: {time}',
+    'health.notChecked': 'Noch nicht geprüft',
+    'health.checkNow': 'Jetzt prüfen',
+    'health.failed.reachable': 'Einstiegspunkt ist nicht erreichbar',
+    'health.failed.evaluates': 'App-Bundle konnte nicht geladen werden',
+    'health.failed.exportsMount': 'App-Bundle stellt keine mount-Funktion bereit',
+    'header.diagnostics': 'Diagnose',
+    'diagnostics.title': 'Diagnose',
+    'diagnostics.description':
+      'Vertrags- und gemeinsam genutzte Abhängigkeitsversionen der Shell und jedes Remotes laut ihren Build-Manifesten.',
+    'diagnostics.refresh': 'Aktualisieren',
+    'diagnostics.dependency': 'Abhängigkeit',
+    'diagnostics.contract': 'Vertragsversion',
+    'diagnostics.build': 'Build',
+    'diagnostics.notShared': 'Nicht geteilt',
+    'diagnostics.noManifest': 'Kein Manifest',
+    'diagnostics.level.ok': 'Kompatibel',
+    'diagnostics.level.info': 'Kompatibel',
+    'diagnostics.level.warning': 'Warnungen',
+    'diagnostics.level.error': 'Inkompatibel',
+    'diagnostics.timings': 'Ladezeiten',
+    'diagnostics.timing.entry-fetch': 'Abruf des Einstiegs',
+    'diagnostics.timing.evaluate': 'Auswertung',
+    'diagnostics.timing.bootstrap': 'Bootstrap',
+    'diagnostics.timing.mount': 'Einbinden',
+    'diagnostics.timing.first-render': 'Erstes Rendern',
+    'diagnostics.timing.unmount': 'Aushängen',
+    'palette.open': 'Suchen',
+    'palette.placeholder': 'Apps, Seiten und Aktionen suchen...',
+    'palette.empty': 'Keine Ergebnisse gefunden.',
+    'palette.recent': 'Zuletzt verwendet',
+    'palette.apps': 'Apps',
+    'palette.pages': 'Seiten',
+    'palette.actions': 'Aktionen',
+    'palette.actionFailed': '"{label}" konnte nicht ausgeführt werden',
+    'forbidden.title': '403 - Zugriff verweigert',
+    'forbidden.app': 'Sie haben keine Berechtigung, {appName} zu öffnen',
+    'forbidden.page': 'Sie haben keine Berechtigung, diese Seite anzuzeigen',
+    'forbidden.help':
+      'Der Zugriff wird über die Rollenzuweisungen Ihrer Organisation gewährt. Wenden Sie sich an Ihren Administrator, wenn Sie Zugriff haben sollten.',
+  },
+};
+
+registerMessages('shell', shellCatalogs);
+
+export function useShellTranslation() {
+  return useTranslation('shell');
+}
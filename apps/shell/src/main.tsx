@@ -10,6 +10,9 @@ import "./style.css";
 import "@one-portal/ui/styles.css";
 import { validateShellEnv, createQueryClient } from "@one-portal/config";
 import { PUBLIC_ROUTES } from "./config/routes";
+import { IDLE_SESSION } from "./config/session";
+import { reportAuthTelemetry } from "./services/authTelemetry";
+import { LanguageProvider } from "./components/LanguageProvider";
 
 try {
   validateShellEnv();
@@ -28,18 +31,24 @@ const queryClient = createQueryClient({ shouldSkipRetry: isAuthError });
 
 createRoot(document.getElementById("app")!).render(
   <StrictMode>
-    <UnifiedAuthProvider
-      msalInstance={msalInstance}
-      mode="host"
-      appName="shell"
-      getAuthConfig={getAuthConfig}
-      debug={import.meta.env.DEV}
-      publicRoutes={PUBLIC_ROUTES}
-    >
-      <QueryClientProvider client={queryClient}>
-        <RouterProvider router={router} />
-      </QueryClientProvider>
-    </UnifiedAuthProvider>
+    <LanguageProvider>
+      <UnifiedAuthProvider
+        msalInstance={msalInstance}
+        mode="host"
+        appName="shell"
+        getAuthConfig={getAuthConfig}
+        debug={import.meta.env.DEV}
+        publicRoutes={PUBLIC_ROUTES}
+        onTelemetry={reportAuthTelemetry}
+        onAccountChange={() => queryClient.clear()}
+        interactionStrategy="popup-then-redirect"
+        idleSession={IDLE_SESSION}
+      >
+        <QueryClientProvider client={queryClient}>
+          <RouterProvider router={router} />
+        </QueryClientProvider>
+      </UnifiedAuthProvider>
+    </LanguageProvider>
     <Sonner />
   </StrictMode>,
 );
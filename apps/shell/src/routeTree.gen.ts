@@ -10,6 +10,8 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as SignInRouteImport } from './routes/sign-in'
+import { Route as ForbiddenRouteImport } from './routes/forbidden'
+import { Route as DiagnosticsRouteImport } from './routes/diagnostics'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as AuthCallbackRouteImport } from './routes/auth/callback'
 import { Route as AppsAppIdRouteImport } from './routes/apps.$appId'
@@ -20,6 +22,16 @@ const SignInRoute = SignInRouteImport.update({
   path: '/sign-in',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ForbiddenRoute = ForbiddenRouteImport.update({
+  id: '/forbidden',
+  path: '/forbidden',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const DiagnosticsRoute = DiagnosticsRouteImport.update({
+  id: '/diagnostics',
+  path: '/diagnostics',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -43,6 +55,8 @@ const AppsAppIdSplatRoute = AppsAppIdSplatRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/diagnostics': typeof DiagnosticsRoute
+  '/forbidden': typeof ForbiddenRoute
   '/sign-in': typeof SignInRoute
   '/apps/$appId': typeof AppsAppIdRouteWithChildren
   '/auth/callback': typeof AuthCallbackRoute
@@ -50,6 +64,8 @@ export interface FileRoutesByFullPath {
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/diagnostics': typeof DiagnosticsRoute
+  '/forbidden': typeof ForbiddenRoute
   '/sign-in': typeof SignInRoute
   '/apps/$appId': typeof AppsAppIdRouteWithChildren
   '/auth/callback': typeof AuthCallbackRoute
@@ -58,6 +74,8 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/diagnostics': typeof DiagnosticsRoute
+  '/forbidden': typeof ForbiddenRoute
   '/sign-in': typeof SignInRoute
   '/apps/$appId': typeof AppsAppIdRouteWithChildren
   '/auth/callback': typeof AuthCallbackRoute
@@ -67,15 +85,26 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/diagnostics'
+    | '/forbidden'
     | '/sign-in'
     | '/apps/$appId'
     | '/auth/callback'
     | '/apps/$appId/$'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/sign-in' | '/apps/$appId' | '/auth/callback' | '/apps/$appId/$'
+  to:
+    | '/'
+    | '/diagnostics'
+    | '/forbidden'
+    | '/sign-in'
+    | '/apps/$appId'
+    | '/auth/callback'
+    | '/apps/$appId/$'
   id:
     | '__root__'
     | '/'
+    | '/diagnostics'
+    | '/forbidden'
     | '/sign-in'
     | '/apps/$appId'
     | '/auth/callback'
@@ -84,6 +113,8 @@ export interface FileRouteTypes {
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  DiagnosticsRoute: typeof DiagnosticsRoute
+  ForbiddenRoute: typeof ForbiddenRoute
   SignInRoute: typeof SignInRoute
   AppsAppIdRoute: typeof AppsAppIdRouteWithChildren
   AuthCallbackRoute: typeof AuthCallbackRoute
@@ -98,6 +129,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SignInRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/forbidden': {
+      id: '/forbidden'
+      path: '/forbidden'
+      fullPath: '/forbidden'
+      preLoaderRoute: typeof ForbiddenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/diagnostics': {
+      id: '/diagnostics'
+      path: '/diagnostics'
+      fullPath: '/diagnostics'
+      preLoaderRoute: typeof DiagnosticsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -143,6 +188,8 @@ const AppsAppIdRouteWithChildren = AppsAppIdRoute._addFileChildren(
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  DiagnosticsRoute: DiagnosticsRoute,
+  ForbiddenRoute: ForbiddenRoute,
   SignInRoute: SignInRoute,
   AppsAppIdRoute: AppsAppIdRouteWithChildren,
   AuthCallbackRoute: AuthCallbackRoute,
@@ -1,5 +1,9 @@
+import { useEffect } from "react";
 import { createRootRoute, Outlet } from "@tanstack/react-router";
+import { toast } from "@one-portal/ui";
+import { translateError } from "@one-portal/types";
 import { Header } from "../components/Header";
+import { CommandPalette } from "../components/CommandPalette";
 import { ThemeProvider } from "../components/ThemeProvider";
 import {
   createProtectedRouteGuard,
@@ -7,6 +11,14 @@ import {
 } from "@one-portal/auth/guards";
 import { msalInstance } from "../auth/msalInstance";
 import { PUBLIC_ROUTES } from "../config/routes";
+import { loadShellConfig } from "../services/configLoader";
+import { useAppStore } from "../stores/appStore";
+import { usePreferencesStore } from "../stores/preferencesStore";
+import { useIdlePrefetch } from "../hooks/useIdlePrefetch";
+import { useShellRequestHandlers } from "../hooks/useShellRequestHandlers";
+import { useAuthorizedApps } from "../hooks/useAuthorizedApps";
+import { usePreferencesSync } from "../hooks/usePreferencesSync";
+import { useRemoteHealthChecks } from "../hooks/useRemoteHealthChecks";
 
 export const Route = createRootRoute({
   beforeLoad: async ({ location }) => {
@@ -17,36 +29,71 @@ export const Route = createRootRoute({
     await guard({ location });
   },
 
-  component: () => {
-    const mockApps = [
-      {
-        id: "domino",
-        name: "Domino",
-        remoteEntryUrl: "/domino/assets/remoteEntry.js",
-        moduleName: "domino",
-        scope: "domino",
-        displayOrder: 2,
-      },
-      {
-        id: "one-portal-admin",
-        name: "One Portal Admin",
-        remoteEntryUrl: "/one-portal-admin/assets/remoteEntry.js",
-        moduleName: "one-portal-admin",
-        scope: "one-portal-admin",
-        displayOrder: 3,
-      },
-    ];
-
-    return (
-      <ThemeProvider defaultTheme="system" storageKey="one-portal-ui-theme">
-        <div className="flex min-h-screen flex-col bg-background text-foreground dark:bg-background-dark dark:text-foreground-dark">
-          <Header apps={mockApps} />
-          <main className="flex-1 grow min-h-[calc(100vh-70px)] overflow-hidden">
-            {/* This is where child routes will render */}
-            <Outlet />
-          </main>
-        </div>
-      </ThemeProvider>
-    );
+  loader: async () => {
+    // Resolved once per page load; later navigations reuse the same result
+    const result = await loadShellConfig();
+    useAppStore.getState().applyShellConfig(result);
+    usePreferencesStore.getState().hydratePreferences(result.config.defaults);
   },
+
+  component: RootComponent,
 });
+
+function RootComponent() {
+  const configError = useAppStore((state) => state.configError);
+  const apps = useAuthorizedApps(useAppStore((state) => state.availableApps));
+  const brandTitle = useAppStore(
+    (state) => state.shellConfig?.branding.title ?? "OnePortal",
+  );
+  const pageTitle = useAppStore((state) => state.pageTitle);
+  const preferencesError = usePreferencesStore(
+    (state) => state.preferencesError,
+  );
+
+  useIdlePrefetch(apps);
+  useRemoteHealthChecks(apps);
+  useShellRequestHandlers();
+  usePreferencesSync();
+
+  useEffect(() => {
+    if (!pageTitle) {
+      return;
+    }
+    const previousTitle = document.title;
+    document.title = `${pageTitle} | ${brandTitle}`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [pageTitle, brandTitle]);
+
+  useEffect(() => {
+    if (configError) {
+      const { language: locale } = usePreferencesStore.getState().preferences;
+      toast.warning(translateError(configError, locale), {
+        description: `Error code: ${configError.code}`,
+      });
+    }
+  }, [configError]);
+
+  useEffect(() => {
+    if (preferencesError) {
+      const { language: locale } = usePreferencesStore.getState().preferences;
+      toast.warning(translateError(preferencesError, locale), {
+        description: `Error code: ${preferencesError.code}`,
+      });
+    }
+  }, [preferencesError]);
+
+  return (
+    <ThemeProvider>
+      <div className="flex min-h-screen flex-col bg-background text-foreground dark:bg-background-dark dark:text-foreground-dark">
+        <Header />
+        <main className="flex-1 grow min-h-[calc(100vh-70px)] overflow-hidden">
+          {/* This is where child routes will render */}
+          <Outlet />
+        </main>
+      </div>
+      <CommandPalette />
+    </ThemeProvider>
+  );
+}
@@ -1,44 +1,60 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, redirect } from "@tanstack/react-router";
+import { useAuth } from "@one-portal/auth/hooks";
+import { createProtectedRouteGuard } from "@one-portal/auth/guards";
 import { RemoteMount } from "../components/RemoteMount";
+import { Forbidden } from "../components/Forbidden";
+import { msalInstance } from "../auth/msalInstance";
+import { loadShellConfig } from "../services/configLoader";
+import { canOpenApp } from "../hooks/useAuthorizedApps";
+import { useAppStore } from "../stores/appStore";
+import { useShellTranslation } from "../i18n/messages";
 
 export const Route = createFileRoute("/apps/$appId")({
+  beforeLoad: async ({ location, params }) => {
+    // Child beforeLoad runs before the root loader, so read the (memoized) config directly
+    const { apps } = await loadShellConfig();
+    const app = apps.find((a) => a.id === params.appId);
+    if (!app?.requiredRoles?.length) {
+      return;
+    }
+
+    const guard = createProtectedRouteGuard(msalInstance, {
+      requiredRoles: app.requiredRoles,
+      // The root route already redirects signed-out users
+      onUnauthenticated: () => {},
+      onForbidden: (returnUrl) => {
+        throw redirect({ to: "/forbidden", search: { returnUrl } });
+      },
+    });
+    await guard({ location });
+  },
   component: AppComponent,
 });
 
 function AppComponent() {
   const { appId } = Route.useParams();
+  const { hasRole } = useAuth();
+  const { t } = useShellTranslation();
 
-  const mockApps = [
-    {
-      id: "domino",
-      name: "Domino",
-      remoteEntryUrl: "/domino/assets/remoteEntry.js",
-      moduleName: "domino",
-      scope: "domino",
-      displayOrder: 1,
-    },
-    {
-      id: "one-portal-admin",
-      name: "One Portal Admin",
-      remoteEntryUrl: "/one-portal-admin/assets/remoteEntry.js",
-      moduleName: "one-portal-admin",
-      scope: "one-portal-admin",
-      displayOrder: 3,
-    },
-  ];
-
-  const app = mockApps.find((a) => a.id === appId);
+  const app = useAppStore((state) =>
+    state.availableApps.find((a) => a.id === appId),
+  );
 
   if (!app) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
-        <h2 className="text-2xl font-semibold">Application Not Found</h2>
+        <h2 className="text-2xl font-semibold">{t("app.notFound.title")}</h2>
         <p className="text-muted-foreground">
-          The application "{appId}" could not be found.
+          {t("app.notFound.description", { appId })}
         </p>
       </div>
     );
   }
 
+  // Covers role changes after navigation, e.g. switching accounts
+  if (!canOpenApp(app, hasRole)) {
+    return <Forbidden appName={app.name} />;
+  }
+
   return <RemoteMount app={app} />;
 }
@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { isFederatedRemoteApp } from "@one-portal/types";
+import { DiagnosticsPanel } from "../components/DiagnosticsPanel";
+import { useAppStore } from "../stores/appStore";
+import { useAuthorizedApps } from "../hooks/useAuthorizedApps";
+
+export const Route = createFileRoute("/diagnostics")({
+  component: DiagnosticsComponent,
+});
+
+function DiagnosticsComponent() {
+  const apps = useAuthorizedApps(useAppStore((state) => state.availableApps));
+  // Iframe apps have no build manifest to compare
+  const federatedApps = useMemo(() => apps.filter(isFederatedRemoteApp), [apps]);
+
+  return (
+    <div className="py-10 px-4">
+      <div className="max-w-5xl mx-auto">
+        <DiagnosticsPanel apps={federatedApps} />
+      </div>
+    </div>
+  );
+}
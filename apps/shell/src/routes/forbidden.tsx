@@ -0,0 +1,24 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { Forbidden } from "../components/Forbidden";
+import { useAppStore } from "../stores/appStore";
+
+export const Route = createFileRoute("/forbidden")({
+  component: ForbiddenComponent,
+  validateSearch: (search: Record<string, unknown>): { returnUrl?: string } => {
+    const result: { returnUrl?: string } = {};
+    if (typeof search.returnUrl === "string") {
+      result.returnUrl = search.returnUrl;
+    }
+    return result;
+  },
+});
+
+function ForbiddenComponent() {
+  const { returnUrl } = Route.useSearch();
+  const appId = returnUrl?.match(/^\/apps\/([^/?#]+)/)?.[1];
+  const app = useAppStore((state) =>
+    state.availableApps.find((a) => a.id === appId),
+  );
+
+  return <Forbidden appName={app?.name} />;
+}
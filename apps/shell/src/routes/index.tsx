@@ -1,5 +1,5 @@
-import { createFileRoute } from '@tanstack/react-router';
 import { useAuth } from '@one-portal/auth/hooks';
+import { createFileRoute, Link } from '@tanstack/react-router';
 import {
   Card,
   CardContent,
@@ -7,8 +7,17 @@ import {
   CardHeader,
   CardTitle,
   Badge,
+  Button,
   Separator,
+  RefreshCw,
+  cn,
 } from '@one-portal/ui';
+import type { RemoteApp } from '@one-portal/types';
+import { useAppStore } from '../stores/appStore';
+import { useHealthStore } from '../stores/healthStore';
+import { useAuthorizedApps } from '../hooks/useAuthorizedApps';
+import { useShellTranslation } from '../i18n/messages';
+import type { RemoteHealth, RemoteHealthStatus } from '../services/remoteHealth';
 
 export const Route = createFileRoute('/')({
   component: IndexComponent,
@@ -17,6 +26,9 @@ export const Route = createFileRoute('/')({
 function IndexComponent() {
   const { state } = useAuth();
   const { isAuthenticated } = state;
+  const { t } = useShellTranslation();
+  const apps = useAuthorizedApps(useAppStore((s) => s.availableApps));
+  const health = useHealthStore((s) => s.health);
 
   if (!isAuthenticated) {
     return <></>;
@@ -31,52 +43,23 @@ function IndexComponent() {
           </h1>
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
             Your unified hub for all enterprise applications.
-            Access billing, reports, and more—all in one place.
+            Access everything you need, all in one place.
           </p>
         </div>
 
         <Separator className="my-8" />
 
-        <div className="grid md:grid-cols-2 gap-6">
-          <Card className="hover:shadow-lg transition-shadow">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle>Billing Management</CardTitle>
-                <Badge variant="default">Available</Badge>
-              </div>
-              <CardDescription>
-                Manage customer invoices, payments, and subscriptions
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <ul className="space-y-2 text-sm text-muted-foreground">
-                <li>• Invoice generation and tracking</li>
-                <li>• Payment processing</li>
-                <li>• Subscription management</li>
-                <li>• Financial reporting</li>
-              </ul>
-            </CardContent>
-          </Card>
-
-          <Card className="hover:shadow-lg transition-shadow">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle>Reports & Analytics</CardTitle>
-                <Badge variant="default">Available</Badge>
-              </div>
-              <CardDescription>
-                Access comprehensive reports and data analytics
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <ul className="space-y-2 text-sm text-muted-foreground">
-                <li>• Sales performance reports</li>
-                <li>• Analytics dashboard</li>
-                <li>• Custom report builder</li>
-                <li>• Export to PDF/Excel</li>
-              </ul>
-            </CardContent>
-          </Card>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-semibold tracking-tight">{t('home.apps')}</h2>
+            <HealthSummary apps={apps} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {apps.map((app) => (
+              <AppStatusCard key={app.id} app={app} health={health[app.id]} />
+            ))}
+          </div>
         </div>
 
         <Card className="border-primary/20 bg-primary/5">
@@ -96,13 +79,81 @@ function IndexComponent() {
           </CardContent>
         </Card>
 
-        <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
-          <div className="flex items-center gap-2">
-            <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-            <span>All systems operational</span>
-          </div>
+      </div>
+    </div>
+  );
+}
+
+const STATUS_BADGE_VARIANTS = {
+  healthy: 'default',
+  degraded: 'destructive',
+  unknown: 'secondary',
+} as const satisfies Record<RemoteHealthStatus, string>;
+
+function AppStatusCard({ app, health }: { app: RemoteApp; health?: RemoteHealth }) {
+  const { t, formatDate } = useShellTranslation();
+  const status = health?.status ?? 'unknown';
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{app.name}</CardTitle>
+          <Badge variant={STATUS_BADGE_VARIANTS[status]}>{t(`health.status.${status}`)}</Badge>
         </div>
+        <CardDescription>
+          {health?.checkedAt
+            ? t('health.lastChecked', {
+                time: formatDate(health.checkedAt, { timeStyle: 'short' }),
+              })
+            : t('health.notChecked')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground" title={health?.error}>
+          {health?.failedCheck && t(`health.failed.${health.failedCheck}`)}
+        </p>
+        <Button asChild variant="outline" size="sm">
+          <Link to="/apps/$appId" params={{ appId: app.id }}>
+            {t('home.open')}
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function HealthSummary({ apps }: { apps: RemoteApp[] }) {
+  const { t } = useShellTranslation();
+  const health = useHealthStore((s) => s.health);
+  const isChecking = useHealthStore((s) => s.isChecking);
+  const checkHealth = useHealthStore((s) => s.checkHealth);
+
+  const degradedCount = apps.filter((app) => health[app.id]?.status === 'degraded').length;
+  const isPending = apps.some((app) => !health[app.id]);
+
+  const [dotClassName, label] =
+    degradedCount > 0
+      ? ['bg-amber-500', t('health.summary.degraded', { count: degradedCount })]
+      : isPending
+        ? ['bg-muted-foreground', t('health.summary.checking')]
+        : ['bg-green-500', t('health.summary.operational')];
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-muted-foreground">
+      <div className="flex items-center gap-2" role="status">
+        <div className={cn('h-2 w-2 rounded-full animate-pulse', dotClassName)} />
+        <span>{label}</span>
       </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => void checkHealth(apps)}
+        disabled={isChecking}
+      >
+        <RefreshCw className={cn('h-4 w-4', isChecking && 'animate-spin')} />
+        {t('health.checkNow')}
+      </Button>
     </div>
   );
 }
@@ -0,0 +1,50 @@
+import { STORAGE_KEYS, type RemoteApp } from '@one-portal/types';
+
+type UsageCounts = Record<string, number>;
+
+function readUsage(): UsageCounts {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.APP_USAGE);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return {};
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] => typeof entry[1] === 'number'
+      )
+    );
+  } catch (error) {
+    console.error('[AppUsage] Failed to read usage counts:', error);
+    return {};
+  }
+}
+
+/**
+ * Count an app launch and remember it as the active app
+ */
+export function recordAppUsage(appId: string): void {
+  const usage = readUsage();
+  usage[appId] = (usage[appId] ?? 0) + 1;
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.APP_USAGE, JSON.stringify(usage));
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_APP, appId);
+  } catch (error) {
+    console.error('[AppUsage] Failed to persist usage counts:', error);
+  }
+}
+
+/**
+ * Apps ordered by launch count, most used first. Apps never opened are omitted.
+ */
+export function getMostUsedApps<T extends RemoteApp>(apps: T[], limit: number): T[] {
+  const usage = readUsage();
+
+  return apps
+    .filter((app) => (usage[app.id] ?? 0) > 0)
+    .sort((a, b) => (usage[b.id] ?? 0) - (usage[a.id] ?? 0))
+    .slice(0, limit);
+}
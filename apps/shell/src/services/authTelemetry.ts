@@ -0,0 +1,26 @@
+import type { TelemetrySink } from '@one-portal/types';
+import type { AuthTelemetryEvent } from '@one-portal/auth';
+import { createDefaultSink } from './telemetrySinks';
+
+/** Same destinations as remote timings (see `createDefaultSink`) */
+let sink: TelemetrySink<AuthTelemetryEvent> = createDefaultSink('AuthTelemetry');
+
+/**
+ * Replace where auth events go. Pass `null` to restore the default sinks.
+ */
+export function setAuthTelemetrySink(next: TelemetrySink<AuthTelemetryEvent> | null): void {
+  sink.flush?.();
+  sink = next ?? createDefaultSink('AuthTelemetry');
+}
+
+/**
+ * `onTelemetry` handler for the shell's `UnifiedAuthProvider`. Receives the
+ * shell's own events and those of remotes mounted in this window.
+ */
+export function reportAuthTelemetry(event: AuthTelemetryEvent): void {
+  try {
+    sink.emit(event);
+  } catch (error) {
+    console.warn('[AuthTelemetry] Failed to emit event:', error);
+  }
+}
@@ -0,0 +1,64 @@
+import { STORAGE_KEYS, type RemoteMenuItem } from '@one-portal/types';
+
+const MAX_RECENT_COMMANDS = 5;
+
+type RemoteMenus = Record<string, RemoteMenuItem[]>;
+
+function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.error(`[CommandHistory] Failed to read ${key}:`, error);
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`[CommandHistory] Failed to persist ${key}:`, error);
+  }
+}
+
+/**
+ * Menus registered by remotes in earlier sessions, so the palette can offer
+ * deep links before a remote has been mounted
+ */
+export function readRemoteMenus(): RemoteMenus {
+  const parsed = readJson(STORAGE_KEYS.REMOTE_MENUS);
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsed).filter((entry): entry is [string, RemoteMenuItem[]] =>
+      Array.isArray(entry[1])
+    )
+  );
+}
+
+export function writeRemoteMenus(menus: RemoteMenus): void {
+  writeJson(STORAGE_KEYS.REMOTE_MENUS, menus);
+}
+
+/**
+ * Command ids, most recently run first
+ */
+export function readRecentCommands(): string[] {
+  const parsed = readJson(STORAGE_KEYS.COMMAND_RECENTS);
+  return Array.isArray(parsed)
+    ? parsed.filter((id): id is string => typeof id === 'string')
+    : [];
+}
+
+export function recordRecentCommand(id: string): string[] {
+  const recents = [id, ...readRecentCommands().filter((recent) => recent !== id)].slice(
+    0,
+    MAX_RECENT_COMMANDS
+  );
+  writeJson(STORAGE_KEYS.COMMAND_RECENTS, recents);
+  return recents;
+}
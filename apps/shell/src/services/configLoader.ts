@@ -0,0 +1,185 @@
+import {
+  ERROR_MESSAGES,
+  ErrorCode,
+  STORAGE_KEYS,
+  ShellError,
+  safeValidateShellConfig,
+  type RemoteApp,
+  type ShellConfiguration,
+} from '@one-portal/types';
+import bundledConfig from '../config/shell-config.json';
+
+/**
+ * Where the active configuration came from:
+ * - `remote`: fetched from `VITE_SHELL_CONFIG_URL`
+ * - `cache`: last good remote configuration (offline fallback)
+ * - `default`: configuration bundled with the shell build
+ */
+export type ShellConfigSource = 'remote' | 'cache' | 'default';
+
+export interface ShellConfigResult {
+  config: ShellConfiguration;
+  /** Enabled apps sorted by `order`, ready for navigation */
+  apps: RemoteApp[];
+  source: ShellConfigSource;
+  /** Set when the remote configuration could not be used */
+  error?: ShellError;
+}
+
+const CONFIG_URL = import.meta.env.VITE_SHELL_CONFIG_URL as string | undefined;
+const CONFIG_TIMEOUT_MS = 10_000;
+
+let pendingLoad: Promise<ShellConfigResult> | null = null;
+
+/**
+ * Load the shell configuration once per page load.
+ *
+ * Fetches from `VITE_SHELL_CONFIG_URL` when configured, falling back to the
+ * cached copy under `STORAGE_KEYS.SHELL_CONFIG` and then to the bundled
+ * configuration. Fallbacks never throw - the failure is reported on `error`.
+ */
+export function loadShellConfig(): Promise<ShellConfigResult> {
+  if (!pendingLoad) {
+    pendingLoad = resolveShellConfig();
+  }
+  return pendingLoad;
+}
+
+async function resolveShellConfig(): Promise<ShellConfigResult> {
+  const defaults = parseConfig(bundledConfig);
+
+  if (!defaults) {
+    throw new ShellError(
+      ErrorCode.CONFIG_INVALID,
+      ERROR_MESSAGES.CONFIG_API.INVALID_RESPONSE
+    );
+  }
+
+  if (!CONFIG_URL) {
+    return toResult(defaults, 'default');
+  }
+
+  try {
+    const config = await fetchShellConfig(CONFIG_URL);
+    writeCachedConfig(config);
+    return toResult(config, 'remote');
+  } catch (error) {
+    const shellError =
+      error instanceof ShellError
+        ? error
+        : new ShellError(
+            ErrorCode.CONFIG_FETCH_FAILED,
+            ERROR_MESSAGES.CONFIG_API.FETCH_FAILED,
+            error
+          );
+
+    console.error(`[ConfigLoader] ${shellError.code}: ${shellError.message}`, shellError.cause);
+
+    const cached = readCachedConfig();
+    return cached
+      ? toResult(cached, 'cache', shellError)
+      : toResult(defaults, 'default', shellError);
+  }
+}
+
+async function fetchShellConfig(url: string): Promise<ShellConfiguration> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CONFIG_TIMEOUT_MS);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        signal: controller.signal,
+        headers: { Accept: 'application/json' },
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ShellError(ErrorCode.CONFIG_TIMEOUT, ERROR_MESSAGES.CONFIG_API.TIMEOUT, error);
+      }
+      throw new ShellError(
+        ErrorCode.CONFIG_FETCH_FAILED,
+        ERROR_MESSAGES.CONFIG_API.FETCH_FAILED,
+        error
+      );
+    }
+
+    if (response.status >= 500) {
+      throw new ShellError(
+        ErrorCode.CONFIG_SERVER_ERROR,
+        ERROR_MESSAGES.CONFIG_API.SERVER_ERROR,
+        new Error(`HTTP ${response.status}: ${response.statusText}`)
+      );
+    }
+
+    if (!response.ok) {
+      throw new ShellError(
+        ErrorCode.CONFIG_FETCH_FAILED,
+        ERROR_MESSAGES.CONFIG_API.FETCH_FAILED,
+        new Error(`HTTP ${response.status}: ${response.statusText}`)
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ShellError(ErrorCode.CONFIG_TIMEOUT, ERROR_MESSAGES.CONFIG_API.TIMEOUT, error);
+      }
+      throw new ShellError(
+        ErrorCode.CONFIG_INVALID,
+        ERROR_MESSAGES.CONFIG_API.INVALID_RESPONSE,
+        error
+      );
+    }
+
+    const result = safeValidateShellConfig(data);
+    if (!result.success) {
+      throw new ShellError(
+        ErrorCode.CONFIG_INVALID,
+        ERROR_MESSAGES.CONFIG_API.INVALID_RESPONSE,
+        result.error
+      );
+    }
+
+    return result.data;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function parseConfig(data: unknown): ShellConfiguration | null {
+  const result = safeValidateShellConfig(data);
+  return result.success ? result.data : null;
+}
+
+function readCachedConfig(): ShellConfiguration | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.SHELL_CONFIG);
+    return raw ? parseConfig(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.error('[ConfigLoader] Failed to read cached configuration:', error);
+    return null;
+  }
+}
+
+function writeCachedConfig(config: ShellConfiguration): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SHELL_CONFIG, JSON.stringify(config));
+  } catch (error) {
+    console.error('[ConfigLoader] Failed to cache configuration:', error);
+  }
+}
+
+function toResult(
+  config: ShellConfiguration,
+  source: ShellConfigSource,
+  error?: ShellError
+): ShellConfigResult {
+  const apps = config.apps
+    .filter((app) => app.enabled !== false)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  return { config, apps, source, error };
+}
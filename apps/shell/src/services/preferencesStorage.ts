@@ -0,0 +1,128 @@
+import {
+  ERROR_MESSAGES,
+  ErrorCode,
+  STORAGE_KEYS,
+  ShellError,
+  safeValidatePreferences,
+  themeSchema,
+  type ShellConfiguration,
+  type UserPreferences,
+} from '@one-portal/types';
+
+/** Key written by the shell's ThemeProvider before preferences were unified */
+const LEGACY_THEME_KEY = 'one-portal-ui-theme';
+
+export interface PreferencesLoadResult {
+  preferences: UserPreferences;
+  /** Set when the stored preferences could not be read */
+  error?: ShellError;
+}
+
+/**
+ * Resolve preferences from `STORAGE_KEYS.PREFERENCES`, layered over the
+ * configuration defaults. A bare theme string under the legacy key is migrated
+ * on first load. Never throws - failures fall back to defaults and are
+ * reported on `error`.
+ */
+export function loadPreferences(
+  defaults: ShellConfiguration['defaults'] = {}
+): PreferencesLoadResult {
+  const fallback = resolvePreferences(defaults, {});
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.PREFERENCES);
+
+    if (raw === null) {
+      return { preferences: migrateLegacyTheme(fallback) };
+    }
+
+    const stored = parseStoredPreferences(JSON.parse(raw));
+    if (!stored) {
+      throw new Error('Stored preferences failed validation');
+    }
+    return { preferences: resolvePreferences(defaults, stored) };
+  } catch (error) {
+    const shellError = new ShellError(
+      ErrorCode.PREF_LOAD_FAILED,
+      ERROR_MESSAGES.PREFERENCES.LOAD_FAILED,
+      error
+    );
+    console.error(`[Preferences] ${shellError.code}: ${shellError.message}`, shellError.cause);
+    return { preferences: fallback, error: shellError };
+  }
+}
+
+/**
+ * Persist preferences under `STORAGE_KEYS.PREFERENCES`.
+ * Returns the failure instead of throwing so callers can keep the in-memory value.
+ */
+export function savePreferences(preferences: UserPreferences): ShellError | null {
+  try {
+    localStorage.setItem(
+      STORAGE_KEYS.PREFERENCES,
+      JSON.stringify({
+        ...preferences,
+        updatedAt: preferences.updatedAt?.toISOString(),
+      })
+    );
+    return null;
+  } catch (error) {
+    const shellError = new ShellError(
+      ErrorCode.PREF_SAVE_FAILED,
+      ERROR_MESSAGES.PREFERENCES.SAVE_FAILED,
+      error
+    );
+    console.error(`[Preferences] ${shellError.code}: ${shellError.message}`, shellError.cause);
+    return shellError;
+  }
+}
+
+function parseStoredPreferences(data: unknown): Partial<UserPreferences> | null {
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  // `updatedAt` is serialized as an ISO string
+  const { updatedAt, ...rest } = data as Record<string, unknown>;
+  const result = safeValidatePreferences({
+    ...rest,
+    updatedAt: typeof updatedAt === 'string' ? new Date(updatedAt) : undefined,
+  });
+  if (!result.success) {
+    return null;
+  }
+
+  // Keep only the fields the user actually stored so defaults still apply to the rest
+  const stored: Partial<UserPreferences> = { updatedAt: result.data.updatedAt };
+  if ('theme' in rest) stored.theme = result.data.theme;
+  if ('language' in rest) stored.language = result.data.language;
+  return stored;
+}
+
+function resolvePreferences(
+  defaults: ShellConfiguration['defaults'],
+  stored: Partial<UserPreferences>
+): UserPreferences {
+  return {
+    theme: stored.theme ?? defaults?.theme ?? 'system',
+    language: stored.language ?? defaults?.language ?? 'en',
+    updatedAt: stored.updatedAt,
+  };
+}
+
+function migrateLegacyTheme(fallback: UserPreferences): UserPreferences {
+  const legacy = themeSchema.safeParse(localStorage.getItem(LEGACY_THEME_KEY));
+  if (!legacy.success) {
+    return fallback;
+  }
+
+  const migrated: UserPreferences = {
+    ...fallback,
+    theme: legacy.data,
+    updatedAt: new Date(),
+  };
+  if (!savePreferences(migrated)) {
+    localStorage.removeItem(LEGACY_THEME_KEY);
+  }
+  return migrated;
+}
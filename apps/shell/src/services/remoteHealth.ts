@@ -0,0 +1,171 @@
+import { isIframeRemoteApp, type RemoteApp } from '@one-portal/types';
+import { evaluateBootstrap, isRemoteLoaded } from './remoteLoader';
+
+/** Checks run by a probe, in order; the first failure stops the probe */
+export type RemoteHealthCheck = 'reachable' | 'evaluates' | 'exportsMount';
+
+export type RemoteHealthStatus = 'unknown' | 'healthy' | 'degraded';
+
+export interface RemoteHealth {
+  status: RemoteHealthStatus;
+  /** Epoch milliseconds of the last completed probe */
+  checkedAt?: number;
+  /** Check that failed, when degraded */
+  failedCheck?: RemoteHealthCheck;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface ProbeRemoteOptions {
+  /** Time allowed for each check (default 10000ms) */
+  timeoutMs?: number;
+}
+
+const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+/** Apps whose bootstrap already evaluated in this session */
+const evaluatedApps = new Set<string>();
+let probeImportCount = 0;
+
+class ProbeFailure extends Error {
+  constructor(
+    public check: RemoteHealthCheck,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProbeFailure';
+  }
+}
+
+/**
+ * Probe a remote without mounting it: the entry must be reachable, the entry
+ * and its `./bootstrap` module must evaluate, and the bootstrap must export
+ * `mount`. Entry URLs are tried in order; the first reachable one is evaluated.
+ *
+ * Evaluating runs the remote's module code in the shell, so it happens once
+ * per session: after the first successful evaluation (or a real load) only
+ * reachability is checked. Iframe apps are only checked for reachability.
+ * Never throws - failures are reported as a degraded result.
+ */
+export async function probeRemote(
+  app: RemoteApp,
+  options: ProbeRemoteOptions = {}
+): Promise<RemoteHealth> {
+  const { timeoutMs = DEFAULT_PROBE_TIMEOUT_MS } = options;
+  const startedAt = performance.now();
+
+  const result = (health: Omit<RemoteHealth, 'checkedAt' | 'durationMs'>): RemoteHealth => ({
+    ...health,
+    checkedAt: Date.now(),
+    durationMs: Math.round(performance.now() - startedAt),
+  });
+
+  try {
+    if (isIframeRemoteApp(app)) {
+      await checkFrameReachable(app.url, timeoutMs);
+      return result({ status: 'healthy' });
+    }
+
+    const entryUrl = await findReachableEntry(
+      [app.remoteEntryUrl, ...(app.fallbackEntryUrls ?? [])],
+      timeoutMs
+    );
+
+    // A remote that already loaded has passed the evaluation checks
+    if (!isRemoteLoaded(app.scope) && !evaluatedApps.has(app.id)) {
+      const bootstrap = await withTimeout(
+        evaluateBootstrap(withProbeParam(entryUrl)).catch((error: unknown) => {
+          throw new ProbeFailure('evaluates', describeError(error));
+        }),
+        timeoutMs,
+        new ProbeFailure('evaluates', `Timed out after ${timeoutMs}ms`)
+      );
+
+      if (typeof (bootstrap as { mount?: unknown } | null)?.mount !== 'function') {
+        throw new ProbeFailure('exportsMount', './bootstrap does not export mount()');
+      }
+      evaluatedApps.add(app.id);
+    }
+
+    return result({ status: 'healthy' });
+  } catch (error) {
+    const failure =
+      error instanceof ProbeFailure ? error : new ProbeFailure('evaluates', describeError(error));
+    console.warn(
+      `[RemoteHealth] ${app.id} is degraded (${failure.check}): ${failure.message}`
+    );
+    return result({ status: 'degraded', failedCheck: failure.check, error: failure.message });
+  }
+}
+
+/**
+ * Probe all apps in parallel, keyed by app id
+ */
+export async function probeRemotes(
+  apps: RemoteApp[],
+  options?: ProbeRemoteOptions
+): Promise<Record<string, RemoteHealth>> {
+  const results = await Promise.all(apps.map((app) => probeRemote(app, options)));
+  return Object.fromEntries(apps.map((app, index) => [app.id, results[index]!]));
+}
+
+async function findReachableEntry(urls: string[], timeoutMs: number): Promise<string> {
+  let lastError = 'No entry URL configured';
+
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, {
+        method: 'HEAD',
+        cache: 'no-store',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (response.ok) {
+        return url;
+      }
+      lastError = `${url} responded with HTTP ${response.status}`;
+    } catch (error) {
+      lastError = `${url}: ${describeError(error)}`;
+    }
+  }
+
+  throw new ProbeFailure('reachable', lastError);
+}
+
+/**
+ * Cross-origin apps rarely allow CORS, so settle for an opaque response:
+ * it only resolves when the server answered. The app's origin must be in the
+ * CSP `connect-src` (see `pnpm sync:frame-src`).
+ */
+async function checkFrameReachable(url: string, timeoutMs: number): Promise<void> {
+  try {
+    await fetch(url, {
+      mode: 'no-cors',
+      cache: 'no-store',
+      credentials: 'omit',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new ProbeFailure('reachable', `${url}: ${describeError(error)}`);
+  }
+}
+
+/**
+ * Browsers cache failed module imports per URL, so every probe imports a URL
+ * of its own. This also keeps probes from caching a failure for the URL the
+ * loader imports.
+ */
+function withProbeParam(url: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}probe=${++probeImportCount}`;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutError: Error): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(timeoutError), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
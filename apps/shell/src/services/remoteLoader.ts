@@ -1,112 +1,502 @@
-import type { Root } from 'react-dom/client';
+import {
+  ERROR_MESSAGES,
+  ErrorCode,
+  ShellError,
+  isCompatibleContractVersion,
+  type RemoteLifecycle,
+  type RemoteMountContext,
+  type RemoteTelemetryPhase,
+} from '@one-portal/types';
+import { assertRemoteCompatibility, type VersionPolicy } from './sharedDependencies';
+import {
+  attachRemoteStyles,
+  collectRemoteCssAssets,
+  createMountTarget,
+  type StyleIsolation,
+} from './remoteStyles';
+import { observeFirstRender, timeRemotePhase } from './remoteTelemetry';
 
 export interface RemoteMetadata {
   scope: string;
-  module: any;
-  mountFn?: (containerId: string) => Root | Promise<Root>;
-  unmountFn?: (instance: Root) => void;
-  instance?: Root;
-  containerId?: string;
-  loadedAt?: number;
+  lifecycle: RemoteLifecycle;
+  /** Element the remote renders into; owned by the loader so it can be parked */
+  container?: HTMLElement;
+  /** Element passed to `mount`; inside `container`'s shadow root for `shadow` isolation */
+  mountTarget?: HTMLElement;
+  /** Stylesheets the federation runtime left to the shell (see `remoteStyles`) */
+  cssAssets: string[];
+  /** Removes the stylesheets attached for the current mount */
+  detachStyles?: () => void;
+  /** Set while the remote is kept alive offscreen */
+  parkedAt?: number;
+  loadedAt: number;
 }
 
+interface FederatedContainer {
+  get: (module: string) => Promise<() => unknown>;
+}
+
+type PhaseTimer = <T>(phase: RemoteTelemetryPhase, run: () => Promise<T> | T) => Promise<T>;
+
+const untimed: PhaseTimer = async (_phase, run) => run();
+
 const remoteRegistry = new Map<string, RemoteMetadata>();
 
+export const DEFAULT_KEEP_ALIVE_LIMIT = 3;
+const PARKING_LOT_ID = 'remote-app-parking-lot';
+
+/**
+ * Validate that a bootstrap module implements the lifecycle contract
+ * and declares a version this shell can host.
+ */
+function resolveLifecycle(scope: string, bootstrapModule: unknown): RemoteLifecycle {
+  const candidate = (bootstrapModule ?? {}) as Partial<RemoteLifecycle>;
+  const version = typeof candidate.contractVersion === 'string' ? candidate.contractVersion : undefined;
+
+  if (
+    !version ||
+    typeof candidate.mount !== 'function' ||
+    typeof candidate.unmount !== 'function' ||
+    !isCompatibleContractVersion(version)
+  ) {
+    throw new ShellError(
+      ErrorCode.REMOTE_INCOMPATIBLE,
+      ERROR_MESSAGES.REMOTE_APP.INCOMPATIBLE(scope, version ?? 'unknown')
+    );
+  }
+
+  return candidate as RemoteLifecycle;
+}
+
+export interface LoadRemoteOptions {
+  /** Entry URLs tried in order after `remoteEntryUrl` within each attempt */
+  fallbackUrls?: string[];
+  /** Additional attempts after the first one (default 2) */
+  retries?: number;
+  /** Delay before the first retry; doubled on every subsequent retry (default 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay (default 5000ms) */
+  maxDelayMs?: number;
+  /** Time allowed for a single entry URL to load (default 15000ms) */
+  timeoutMs?: number;
+  /** Called for every failed attempt, before the next one starts */
+  onAttemptFailed?: (error: ShellError, attempt: number, url: string) => void;
+  /** Whether shared dependency mismatches refuse the load (default `strict`) */
+  versionPolicy?: VersionPolicy;
+}
+
+const DEFAULT_LOAD_OPTIONS = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5_000,
+  timeoutMs: 15_000,
+};
+
+const pendingLoads = new Map<string, Promise<RemoteMetadata>>();
+/** Prefetches never reject; a load that joins one retries on its own terms */
+const pendingPrefetches = new Map<string, Promise<void>>();
+
+/** Entry URLs imported at least once; see `nextEntryUrl` */
+const importedEntryUrls = new Set<string>();
+let entryImportCount = 0;
+
+/**
+ * Load a remote's bootstrap module, retrying with exponential backoff.
+ *
+ * The remote's build manifest is checked first (see `assertRemoteCompatibility`).
+ * Each attempt walks `remoteEntryUrl` and then `fallbackUrls`. Only successful
+ * loads are cached in the registry, so a later call starts from scratch.
+ * Incompatible remotes fail immediately - retrying cannot fix them.
+ */
 export async function loadRemote(
   remoteEntryUrl: string,
-  scope: string
+  scope: string,
+  options: LoadRemoteOptions = {}
 ): Promise<RemoteMetadata> {
   if (remoteRegistry.has(scope)) {
     return remoteRegistry.get(scope)!;
   }
 
-  try {
-    const module = await import(/* @vite-ignore */ remoteEntryUrl);
+  const pending = pendingLoads.get(scope);
+  if (pending) {
+    return pending;
+  }
 
-    const metadata: RemoteMetadata = {
-      scope,
-      module,
-      loadedAt: Date.now(),
-    };
+  // A prefetch in flight may finish the job; if it fails, load with these options
+  const prefetch = pendingPrefetches.get(scope) ?? Promise.resolve();
+  const load = prefetch
+    .then(() => remoteRegistry.get(scope) ?? fetchRemote(remoteEntryUrl, scope, options))
+    .finally(() => {
+      pendingLoads.delete(scope);
+    });
+
+  pendingLoads.set(scope, load);
+  return load;
+}
+
+/**
+ * Download and evaluate a remote's entry and `./bootstrap` module without
+ * mounting it, so a later `loadRemote` resolves from the registry.
+ * Makes a single attempt by default. Failures are logged and swallowed - a
+ * `loadRemote` call made meanwhile waits for the prefetch and then retries
+ * with its own options.
+ */
+export async function prefetchRemote(
+  remoteEntryUrl: string,
+  scope: string,
+  options: LoadRemoteOptions = {}
+): Promise<void> {
+  if (remoteRegistry.has(scope)) {
+    return;
+  }
 
-    try {
-      const bootstrap = await module.get('./bootstrap');
-      const bootstrapModule = bootstrap();
+  const pending = pendingLoads.get(scope) ?? pendingPrefetches.get(scope);
+  if (pending) {
+    await pending.catch(() => undefined);
+    return;
+  }
 
-      metadata.mountFn = bootstrapModule.mount;
-      metadata.unmountFn = bootstrapModule.unmount;
-    } catch (error) {
-      console.error(`[RemoteLoader] Bootstrap load failed for ${scope}:`, error);
+  const prefetch = fetchRemote(remoteEntryUrl, scope, { retries: 0, ...options })
+    .then(
+      () => undefined,
+      (error: unknown) => {
+        console.warn(`[RemoteLoader] Prefetch failed for ${scope}:`, error);
+      }
+    )
+    .finally(() => {
+      pendingPrefetches.delete(scope);
+    });
 
-      const app = await module.get('./App');
-      metadata.module = app;
+  pendingPrefetches.set(scope, prefetch);
+  return prefetch;
+}
+
+/**
+ * Check compatibility, load with retries and cache the result in the registry
+ */
+async function fetchRemote(
+  remoteEntryUrl: string,
+  scope: string,
+  options: LoadRemoteOptions
+): Promise<RemoteMetadata> {
+  await assertRemoteCompatibility(remoteEntryUrl, scope, options.versionPolicy);
+  const lifecycle = await loadWithRetry(
+    [remoteEntryUrl, ...(options.fallbackUrls ?? [])],
+    scope,
+    options
+  );
+
+  const metadata: RemoteMetadata = {
+    scope,
+    lifecycle,
+    cssAssets: collectRemoteCssAssets(scope),
+    loadedAt: Date.now(),
+  };
+  remoteRegistry.set(scope, metadata);
+  return metadata;
+}
+
+async function loadWithRetry(
+  urls: string[],
+  scope: string,
+  options: LoadRemoteOptions
+): Promise<RemoteLifecycle> {
+  const { retries, baseDelayMs, maxDelayMs, timeoutMs } = { ...DEFAULT_LOAD_OPTIONS, ...options };
+  let lastError: ShellError | undefined;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await delay(Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs));
     }
 
-    remoteRegistry.set(scope, metadata);
+    for (const url of urls) {
+      try {
+        return await loadLifecycle(url, scope, attempt, timeoutMs);
+      } catch (error) {
+        if (error instanceof ShellError && error.code === ErrorCode.REMOTE_INCOMPATIBLE) {
+          console.error(`[RemoteLoader] ${error.code}: ${error.message}`);
+          throw error;
+        }
+
+        lastError = new ShellError(
+          ErrorCode.REMOTE_LOAD_FAILED,
+          ERROR_MESSAGES.REMOTE_APP.LOAD_FAILED(scope),
+          error
+        );
+        console.error(
+          `[RemoteLoader] ${lastError.code}: attempt ${attempt + 1}/${retries + 1} failed for ${scope} (${url})`,
+          error
+        );
+        options.onAttemptFailed?.(lastError, attempt + 1, url);
+      }
+    }
+  }
 
-    return metadata;
+  console.error(`[RemoteLoader] ✗ Failed to load remote: ${scope}`);
+  throw lastError!;
+}
 
-  } catch (error) {
-    console.error(`[RemoteLoader] ✗ Failed to load remote: ${scope}`, error);
-    throw new Error(`Failed to load remote application "${scope}" from ${remoteEntryUrl}: ${error}`);
+async function loadLifecycle(
+  url: string,
+  scope: string,
+  attempt: number,
+  timeoutMs: number
+): Promise<RemoteLifecycle> {
+  const entryUrl = nextEntryUrl(url);
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`Timed out after ${timeoutMs}ms loading ${url}`)),
+      timeoutMs
+    );
+  });
+
+  const time: PhaseTimer = (phase, run) =>
+    timeRemotePhase(scope, phase, run, { attempt, url: entryUrl });
+
+  try {
+    const load = async () => resolveLifecycle(scope, await evaluateBootstrap(entryUrl, time));
+    return await Promise.race([load(), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
+/**
+ * Import a remote entry and evaluate its `./bootstrap` module, returning the
+ * module's exports unvalidated. `time` receives each load phase.
+ */
+export async function evaluateBootstrap(
+  entryUrl: string,
+  time: PhaseTimer = untimed
+): Promise<unknown> {
+  const container = await time(
+    'entry-fetch',
+    () => import(/* @vite-ignore */ entryUrl) as Promise<FederatedContainer>
+  );
+  const bootstrap = await time('evaluate', () => container.get('./bootstrap'));
+  return time('bootstrap', bootstrap);
+}
+
+export function isRemoteLoaded(scope: string): boolean {
+  return remoteRegistry.has(scope);
+}
+
+/**
+ * URL for the next import of `url`. Browsers cache failed module imports per
+ * URL for the lifetime of the page, so only the first import uses the bare
+ * URL; every later one - a retry, a later `loadRemote` call, the error
+ * fallback's Retry button - gets a query string no import has used yet.
+ */
+export function nextEntryUrl(url: string): string {
+  if (!importedEntryUrls.has(url)) {
+    importedEntryUrls.add(url);
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}retry=${++entryImportCount}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface MountRemoteOptions {
+  /** How the remote's stylesheets are applied (default `none`) */
+  styleIsolation?: StyleIsolation;
+}
+
+/**
+ * Mount a loaded remote into a fresh container appended to `host`.
+ * The remote's stylesheets are attached for the lifetime of the mount.
+ * Records `mount` and, once the remote has painted, `first-render` timings.
+ */
 export async function mountRemote(
   scope: string,
-  containerId: string
-): Promise<Root> {
+  host: HTMLElement,
+  context: RemoteMountContext,
+  options: MountRemoteOptions = {}
+): Promise<void> {
   const metadata = remoteRegistry.get(scope);
 
   if (!metadata) {
     throw new Error(`Remote "${scope}" not loaded. Call loadRemote() first.`);
   }
 
-  if (!metadata.mountFn) {
-    throw new Error(`Remote "${scope}" does not expose a mount function.`);
+  if (metadata.container) {
+    await unmountRemote(scope);
   }
 
-  try {
-    const instance = await metadata.mountFn(containerId);
+  const container = document.createElement('div');
+  container.dataset.remoteScope = scope;
+  container.style.minHeight = 'inherit';
+  host.appendChild(container);
 
-    metadata.instance = instance;
-    metadata.containerId = containerId;
+  const isolation = options.styleIsolation ?? 'none';
+  const { target, dispose } = createMountTarget(container, isolation);
+  let detachStyles = dispose;
+  const startedAt = performance.now();
 
-    return instance;
+  try {
+    await timeRemotePhase(
+      scope,
+      'mount',
+      async () => {
+        const removeStyles = await attachRemoteStyles(scope, metadata.cssAssets, isolation, target);
+        detachStyles = () => {
+          removeStyles();
+          dispose();
+        };
 
+        await metadata.lifecycle.mount(target.element, context);
+      },
+      { metadata: { styleIsolation: isolation } }
+    );
+    metadata.container = container;
+    metadata.mountTarget = target.element;
+    metadata.detachStyles = detachStyles;
   } catch (error) {
+    detachStyles();
+    container.remove();
     console.error(`[RemoteLoader] Mount failed for ${scope}:`, error);
-    throw new Error(`Failed to mount remote "${scope}": ${error}`);
+    throw new ShellError(
+      ErrorCode.REMOTE_MOUNT_FAILED,
+      ERROR_MESSAGES.REMOTE_APP.MOUNT_FAILED(scope),
+      error
+    );
   }
+
+  observeFirstRender(scope, target.element, startedAt);
 }
 
-export function unmountRemote(scope: string): void {
+/**
+ * Push a new context (theme, locale, account) to a mounted remote.
+ * Remotes without an `update` hook keep the context they were mounted with.
+ */
+export async function updateRemote(
+  scope: string,
+  context: RemoteMountContext
+): Promise<void> {
   const metadata = remoteRegistry.get(scope);
 
-  if (!metadata || !metadata.instance) {
+  if (!metadata?.container || !metadata.lifecycle.update) {
     return;
   }
 
   try {
-    if (metadata.unmountFn) {
-      metadata.unmountFn(metadata.instance);
-    }
+    await metadata.lifecycle.update(context);
+  } catch (error) {
+    console.error(`[RemoteLoader] Update failed for ${scope}:`, error);
+  }
+}
 
-    delete metadata.instance;
-    delete metadata.containerId;
+export async function unmountRemote(scope: string): Promise<void> {
+  const metadata = remoteRegistry.get(scope);
+
+  if (!metadata?.container) {
+    return;
+  }
+
+  const { container, mountTarget = container, detachStyles } = metadata;
+  delete metadata.container;
+  delete metadata.mountTarget;
+  delete metadata.detachStyles;
+  delete metadata.parkedAt;
 
+  try {
+    await timeRemotePhase(scope, 'unmount', async () => {
+      try {
+        await metadata.lifecycle.unmount(mountTarget);
+      } finally {
+        detachStyles?.();
+        container.remove();
+      }
+    });
   } catch (error) {
     console.error(`[RemoteLoader] Unmount failed for ${scope}:`, error);
-    delete metadata.instance;
-    delete metadata.containerId;
   }
 }
 
+/**
+ * Keep a mounted remote alive by moving its container offscreen instead of
+ * unmounting it. When more than `limit` remotes are parked, the least
+ * recently parked ones are unmounted for real.
+ * Resolves to the scopes that were unmounted, so callers can drop what they
+ * registered (e.g. command palette actions).
+ */
+export async function parkRemote(
+  scope: string,
+  limit: number = DEFAULT_KEEP_ALIVE_LIMIT
+): Promise<string[]> {
+  const metadata = remoteRegistry.get(scope);
+
+  if (!metadata?.container) {
+    return [];
+  }
+
+  getParkingLot().appendChild(metadata.container);
+  metadata.parkedAt = Date.now();
+
+  const parked = getParkedRemotes();
+  const evicted = parked.slice(0, Math.max(parked.length - Math.max(limit, 0), 0));
+
+  await Promise.all(evicted.map((parkedScope) => unmountRemote(parkedScope)));
+  return evicted;
+}
+
+/**
+ * Move a parked remote back into `host` and push the current context to it.
+ * Returns false when the remote is not parked and needs a regular mount.
+ */
+export async function restoreRemote(
+  scope: string,
+  host: HTMLElement,
+  context: RemoteMountContext
+): Promise<boolean> {
+  const metadata = remoteRegistry.get(scope);
+
+  if (!metadata?.container || metadata.parkedAt === undefined) {
+    return false;
+  }
+
+  host.appendChild(metadata.container);
+  delete metadata.parkedAt;
+  await updateRemote(scope, context);
+
+  return true;
+}
+
+/**
+ * Scopes of parked remotes, least recently used first
+ */
+export function getParkedRemotes(): string[] {
+  return [...remoteRegistry.values()]
+    .filter((metadata) => metadata.container && metadata.parkedAt !== undefined)
+    .sort((a, b) => a.parkedAt! - b.parkedAt!)
+    .map((metadata) => metadata.scope);
+}
+
+function getParkingLot(): HTMLElement {
+  let lot = document.getElementById(PARKING_LOT_ID);
+
+  if (!lot) {
+    lot = document.createElement('div');
+    lot.id = PARKING_LOT_ID;
+    lot.hidden = true;
+    lot.setAttribute('aria-hidden', 'true');
+    document.body.appendChild(lot);
+  }
+
+  return lot;
+}
+
 export async function loadAndMountRemote(
   remoteEntryUrl: string,
   scope: string,
-  containerId: string
-): Promise<Root> {
-  await loadRemote(remoteEntryUrl, scope);
-  return mountRemote(scope, containerId);
+  host: HTMLElement,
+  context: RemoteMountContext,
+  options?: LoadRemoteOptions & MountRemoteOptions
+): Promise<void> {
+  await loadRemote(remoteEntryUrl, scope, options);
+  return mountRemote(scope, host, context, options);
 }
@@ -0,0 +1,189 @@
+import type { FederatedRemoteApp } from '@one-portal/types';
+
+export type StyleIsolation = NonNullable<FederatedRemoteApp['styleIsolation']>;
+
+/**
+ * Where a remote renders and where its styles go. For `shadow` isolation the
+ * remote renders into an element inside the container's shadow root.
+ */
+export interface MountTarget {
+  element: HTMLElement;
+  shadowRoot?: ShadowRoot;
+}
+
+declare global {
+  interface Window {
+    /**
+     * Stylesheet URLs of exposed modules built with `dontAppendStylesToHead`,
+     * keyed `css__<federation name>__<module>` by the federation runtime
+     */
+    [key: `css__${string}__${string}`]: string[] | undefined;
+  }
+}
+
+const sheetCache = new Map<string, Promise<CSSStyleSheet>>();
+
+/**
+ * Take the stylesheet URLs the federation runtime collected for a remote's
+ * `./bootstrap`. Empty for remotes that still append their styles to `<head>`.
+ */
+export function collectRemoteCssAssets(scope: string): string[] {
+  const key = `css__${scope}__./bootstrap` as const;
+  const urls = window[key] ?? [];
+  delete window[key];
+  return [...new Set(urls)];
+}
+
+/**
+ * Create the element a remote mounts into. With `shadow` isolation, the
+ * shell's theme class is mirrored into the shadow tree so `dark:` variants
+ * keep working.
+ */
+export function createMountTarget(
+  container: HTMLElement,
+  isolation: StyleIsolation
+): { target: MountTarget; dispose: () => void } {
+  if (isolation !== 'shadow') {
+    return { target: { element: container }, dispose: () => {} };
+  }
+
+  const shadowRoot = container.attachShadow({ mode: 'open' });
+  const element = document.createElement('div');
+  element.style.minHeight = 'inherit';
+  shadowRoot.appendChild(element);
+
+  const syncTheme = () => {
+    element.className = document.documentElement.className;
+  };
+  syncTheme();
+  const observer = new MutationObserver(syncTheme);
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+
+  return { target: { element, shadowRoot }, dispose: () => observer.disconnect() };
+}
+
+/**
+ * Apply a remote's stylesheets for one mount and return a function that
+ * removes them again:
+ * - `none`: `<link>` elements in `<head>`, as the federation runtime would add
+ * - `shadow`: constructed stylesheets adopted by the shadow root
+ * - `scoped`: a `<style>` in `<head>` with every rule wrapped in
+ *   `@scope ([data-remote-scope="<scope>"])`
+ */
+export async function attachRemoteStyles(
+  scope: string,
+  cssAssets: string[],
+  isolation: StyleIsolation,
+  target: MountTarget
+): Promise<() => void> {
+  if (cssAssets.length === 0) {
+    return () => {};
+  }
+
+  if (isolation === 'none') {
+    const links = cssAssets.map((href) => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = href;
+      link.dataset.remoteStyle = scope;
+      document.head.appendChild(link);
+      return link;
+    });
+    return () => links.forEach((link) => link.remove());
+  }
+
+  const sheets = await Promise.all(cssAssets.map(loadStyleSheet));
+
+  if (isolation === 'shadow' && target.shadowRoot) {
+    const { shadowRoot } = target;
+    shadowRoot.adoptedStyleSheets = [...shadowRoot.adoptedStyleSheets, ...sheets];
+    return () => {
+      shadowRoot.adoptedStyleSheets = shadowRoot.adoptedStyleSheets.filter(
+        (sheet) => !sheets.includes(sheet)
+      );
+    };
+  }
+
+  const style = document.createElement('style');
+  style.dataset.remoteStyle = scope;
+  style.textContent = sheets
+    .map((sheet) => scopeRules(sheet.cssRules, `[data-remote-scope="${CSS.escape(scope)}"]`))
+    .join('\n');
+  document.head.appendChild(style);
+  return () => style.remove();
+}
+
+function loadStyleSheet(url: string): Promise<CSSStyleSheet> {
+  let sheet = sheetCache.get(url);
+
+  if (!sheet) {
+    sheet = fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} loading ${url}`);
+        }
+        return response.text();
+      })
+      .then((cssText) => {
+        const styleSheet = new CSSStyleSheet();
+        // Document-level selectors would not match anything inside a shadow tree
+        styleSheet.replaceSync(cssText.replace(/:root\b/g, ':root, :host'));
+        return styleSheet;
+      });
+    // Let a later mount retry failed downloads
+    sheet.catch(() => sheetCache.delete(url));
+    sheetCache.set(url, sheet);
+  }
+
+  return sheet;
+}
+
+/** Selectors that target the document root and should target the remote's container instead */
+const ROOT_SELECTOR = /^(?::root|:host|html|body)$/;
+
+/**
+ * Serialize rules with each style rule wrapped in `@scope`. Grouping rules
+ * (`@layer`, `@media`, `@supports`) keep their position so cascade layers
+ * still apply; `@property`, `@font-face` and `@keyframes` stay global.
+ */
+function scopeRules(rules: CSSRuleList, scopeSelector: string): string {
+  return Array.from(rules, (rule) => {
+    if (rule instanceof CSSStyleRule) {
+      const selector = [
+        ...new Set(
+          splitSelectorList(rule.selectorText).map((part) =>
+            ROOT_SELECTOR.test(part) ? ':scope' : part
+          )
+        ),
+      ].join(', ');
+      return `@scope (${scopeSelector}) { ${selector}${rule.cssText.slice(rule.selectorText.length)} }`;
+    }
+    if (rule instanceof CSSGroupingRule) {
+      const prelude = rule.cssText.slice(0, rule.cssText.indexOf('{'));
+      return `${prelude}{ ${scopeRules(rule.cssRules, scopeSelector)} }`;
+    }
+    return rule.cssText;
+  }).join('\n');
+}
+
+/**
+ * Split a selector list on top-level commas, leaving `:is(a, b)` intact
+ */
+function splitSelectorList(selectorText: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < selectorText.length; index++) {
+    const char = selectorText[index];
+    if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(selectorText.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  parts.push(selectorText.slice(start).trim());
+
+  return parts;
+}
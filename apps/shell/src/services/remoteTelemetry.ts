@@ -0,0 +1,131 @@
+import {
+  ShellError,
+  type RemoteTelemetryEvent,
+  type RemoteTelemetryPhase,
+  type TelemetrySink,
+} from '@one-portal/types';
+import { createDefaultSink } from './telemetrySinks';
+
+type RemoteTimings = Partial<Record<RemoteTelemetryPhase, number>>;
+
+interface TimingDetails {
+  attempt?: number;
+  url?: string;
+  metadata?: Record<string, unknown>;
+}
+
+const FIRST_RENDER_TIMEOUT_MS = 10_000;
+
+const latestTimings = new Map<string, RemoteTimings>();
+
+let sink: TelemetrySink<RemoteTelemetryEvent> = createDefaultSink('RemoteTelemetry');
+
+/**
+ * Replace where remote timings go, e.g. a memory sink in tests.
+ * Pass `null` to restore the default sinks.
+ */
+export function setRemoteTelemetrySink(next: TelemetrySink<RemoteTelemetryEvent> | null): void {
+  sink.flush?.();
+  sink = next ?? createDefaultSink('RemoteTelemetry');
+}
+
+/**
+ * Most recent successful duration per phase for a remote, in milliseconds
+ */
+export function getRemoteTimings(scope: string): RemoteTimings {
+  return { ...latestTimings.get(scope) };
+}
+
+export function recordRemoteTiming(event: Omit<RemoteTelemetryEvent, 'type' | 'timestamp'>): void {
+  const durationMs = Math.round(event.durationMs);
+
+  if (event.success) {
+    latestTimings.set(event.scope, { ...latestTimings.get(event.scope), [event.phase]: durationMs });
+  }
+
+  try {
+    sink.emit({ ...event, type: 'remote-timing', durationMs, timestamp: new Date() });
+  } catch (error) {
+    console.warn('[RemoteTelemetry] Failed to emit event:', error);
+  }
+}
+
+/**
+ * Run one phase and record its duration, whether it succeeds or throws
+ */
+export async function timeRemotePhase<T>(
+  scope: string,
+  phase: RemoteTelemetryPhase,
+  run: () => Promise<T> | T,
+  details: TimingDetails = {}
+): Promise<T> {
+  const startedAt = performance.now();
+
+  try {
+    const result = await run();
+    recordRemoteTiming({
+      scope,
+      phase,
+      success: true,
+      durationMs: performance.now() - startedAt,
+      ...details,
+    });
+    return result;
+  } catch (error) {
+    recordRemoteTiming({
+      scope,
+      phase,
+      success: false,
+      durationMs: performance.now() - startedAt,
+      error: {
+        code: error instanceof ShellError ? error.code : undefined,
+        message: error instanceof Error ? error.message : String(error),
+      },
+      ...details,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Record `first-render` once `element` has content and a frame was painted
+ * after it, measured from `startedAt` (the start of the mount)
+ */
+export function observeFirstRender(scope: string, element: HTMLElement, startedAt: number): void {
+  const afterPaint = () =>
+    requestAnimationFrame(() =>
+      requestAnimationFrame(() =>
+        recordRemoteTiming({
+          scope,
+          phase: 'first-render',
+          success: true,
+          durationMs: performance.now() - startedAt,
+        })
+      )
+    );
+
+  if (element.childNodes.length > 0) {
+    afterPaint();
+    return;
+  }
+
+  const observer = new MutationObserver(() => {
+    if (element.childNodes.length > 0) {
+      observer.disconnect();
+      clearTimeout(timeoutId);
+      afterPaint();
+    }
+  });
+  observer.observe(element, { childList: true });
+
+  const timeoutId = setTimeout(() => {
+    observer.disconnect();
+    recordRemoteTiming({
+      scope,
+      phase: 'first-render',
+      success: false,
+      durationMs: performance.now() - startedAt,
+      error: { message: `Nothing rendered within ${FIRST_RENDER_TIMEOUT_MS}ms` },
+    });
+  }, FIRST_RENDER_TIMEOUT_MS);
+}
@@ -0,0 +1,140 @@
+import hostManifest from 'virtual:build-manifest';
+import {
+  BUILD_MANIFEST_FILENAME,
+  ERROR_MESSAGES,
+  ErrorCode,
+  ShellError,
+  compareBuildManifests,
+  type BuildManifest,
+  type CompatibilityReport,
+  type FederatedRemoteApp,
+} from '@one-portal/types';
+
+export type VersionPolicy = NonNullable<FederatedRemoteApp['versionPolicy']>;
+
+export interface RemoteCompatibility {
+  scope: string;
+  manifestUrl: string;
+  /** Missing when the manifest could not be fetched */
+  manifest?: BuildManifest;
+  report?: CompatibilityReport;
+  error?: string;
+  checkedAt: number;
+}
+
+const MANIFEST_TIMEOUT_MS = 5_000;
+
+const compatibilityRegistry = new Map<string, RemoteCompatibility>();
+
+export function getHostManifest(): BuildManifest {
+  return hostManifest;
+}
+
+/**
+ * Latest compatibility result per scope, from loads and diagnostics
+ */
+export function getRemoteCompatibility(scope: string): RemoteCompatibility | undefined {
+  return compatibilityRegistry.get(scope);
+}
+
+/**
+ * The build manifest is published next to the remote entry
+ */
+export function getManifestUrl(remoteEntryUrl: string): string {
+  return new URL(BUILD_MANIFEST_FILENAME, new URL(remoteEntryUrl, window.location.href)).href;
+}
+
+/**
+ * Fetch a remote's build manifest and compare it with the shell's.
+ * Never throws - a missing manifest is reported on `error`.
+ */
+export async function inspectRemoteCompatibility(
+  remoteEntryUrl: string,
+  scope: string
+): Promise<RemoteCompatibility> {
+  const manifestUrl = getManifestUrl(remoteEntryUrl);
+  let result: RemoteCompatibility;
+
+  try {
+    const response = await fetch(manifestUrl, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(MANIFEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const manifest = (await response.json()) as BuildManifest;
+    result = {
+      scope,
+      manifestUrl,
+      manifest,
+      report: compareBuildManifests(hostManifest, manifest),
+      checkedAt: Date.now(),
+    };
+  } catch (error) {
+    result = {
+      scope,
+      manifestUrl,
+      error: error instanceof Error ? error.message : String(error),
+      checkedAt: Date.now(),
+    };
+  }
+
+  compatibilityRegistry.set(scope, result);
+  return result;
+}
+
+/**
+ * Check a remote's build manifest before it is loaded. An incompatible
+ * contract always refuses the load. Shared dependency mismatches are logged,
+ * and under the `strict` policy errors refuse the load too. Remotes without a
+ * manifest (older builds, dev servers) are allowed with a warning.
+ */
+export async function assertRemoteCompatibility(
+  remoteEntryUrl: string,
+  scope: string,
+  policy: VersionPolicy = 'strict'
+): Promise<RemoteCompatibility> {
+  const result = await inspectRemoteCompatibility(remoteEntryUrl, scope);
+
+  if (!result.report) {
+    console.warn(
+      `[SharedDependencies] No build manifest for ${scope} (${result.manifestUrl}): ${result.error}`
+    );
+    return result;
+  }
+
+  // Contract mismatches are fatal regardless of policy; don't evaluate the bundle at all
+  const { contract } = result.report;
+  if (contract.level === 'error') {
+    const error = new ShellError(
+      ErrorCode.REMOTE_INCOMPATIBLE,
+      ERROR_MESSAGES.REMOTE_APP.INCOMPATIBLE(scope, contract.remoteVersion)
+    );
+    console.error(`[SharedDependencies] ${error.code}: ${error.message}`);
+    throw error;
+  }
+
+  const problems = result.report.dependencies.filter(
+    (dependency) => dependency.level === 'warning' || dependency.level === 'error'
+  );
+  for (const dependency of problems) {
+    console.warn(`[SharedDependencies] ${scope} ${dependency.name}: ${dependency.reason}`);
+  }
+
+  const failed = result.report.dependencies
+    .filter((dependency) => dependency.level === 'error')
+    .map((dependency) => dependency.name);
+
+  if (failed.length > 0 && policy === 'strict') {
+    const error = new ShellError(
+      ErrorCode.REMOTE_INCOMPATIBLE,
+      ERROR_MESSAGES.REMOTE_APP.SHARED_DEPENDENCY_MISMATCH(scope, failed)
+    );
+    console.error(`[SharedDependencies] ${error.code}: ${error.message}`);
+    throw error;
+  }
+
+  return result;
+}
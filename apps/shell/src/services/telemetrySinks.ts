@@ -0,0 +1,32 @@
+import {
+  combineSinks,
+  createBeaconSink,
+  createConsoleSink,
+  type TelemetrySink,
+} from '@one-portal/types';
+
+const TELEMETRY_URL = import.meta.env.VITE_TELEMETRY_URL as string | undefined;
+
+/** Created on first use and kept for the lifetime of the page */
+let beaconSink: TelemetrySink<unknown> | null = null;
+
+/**
+ * Default destination for shell telemetry: the console in development builds
+ * and `VITE_TELEMETRY_URL` (sent with `navigator.sendBeacon`) when it is set.
+ *
+ * Every default sink shares one beacon sink, so restoring the defaults does
+ * not add page listeners.
+ */
+export function createDefaultSink<TEvent>(label: string): TelemetrySink<TEvent> {
+  const sinks: TelemetrySink<TEvent>[] = [];
+
+  if (import.meta.env.DEV) {
+    sinks.push(createConsoleSink(label));
+  }
+  if (TELEMETRY_URL) {
+    beaconSink ??= createBeaconSink(TELEMETRY_URL);
+    sinks.push(beaconSink);
+  }
+
+  return combineSinks(...sinks);
+}
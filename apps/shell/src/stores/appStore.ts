@@ -1,16 +1,33 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { RemoteApp } from '@one-portal/types';
+import type {
+  RemoteApp,
+  ShellBreadcrumb,
+  ShellConfiguration,
+  ShellError,
+} from '@one-portal/types';
+import type { ShellConfigResult } from '../services/configLoader';
 
 interface AppState {
   activeApp: RemoteApp | null;
   isLoading: boolean;
   error: Error | null;
   availableApps: RemoteApp[];
+  shellConfig: ShellConfiguration | null;
+  configError: ShellError | null;
+  /** Scopes of keep-alive remotes currently parked offscreen, least recently used first */
+  parkedRemotes: string[];
+  /** Title and breadcrumbs reported by the active remote via the host API */
+  pageTitle: string | null;
+  breadcrumbs: ShellBreadcrumb[];
   setActiveApp: (app: RemoteApp | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: Error | null) => void;
   setAvailableApps: (apps: RemoteApp[]) => void;
+  applyShellConfig: (result: ShellConfigResult) => void;
+  setParkedRemotes: (scopes: string[]) => void;
+  setPageTitle: (title: string | null) => void;
+  setBreadcrumbs: (breadcrumbs: ShellBreadcrumb[]) => void;
   clearError: () => void;
 }
 
@@ -22,6 +39,11 @@ export const useAppStore = create<AppState>()(
       isLoading: false,
       error: null,
       availableApps: [],
+      shellConfig: null,
+      configError: null,
+      parkedRemotes: [],
+      pageTitle: null,
+      breadcrumbs: [],
 
       // Actions
       setActiveApp: (app) =>
@@ -35,6 +57,25 @@ export const useAppStore = create<AppState>()(
       setAvailableApps: (apps) =>
         set({ availableApps: apps }, false, 'setAvailableApps'),
 
+      applyShellConfig: ({ config, apps, error }) =>
+        set(
+          {
+            shellConfig: config,
+            availableApps: apps,
+            configError: error ?? null,
+          },
+          false,
+          'applyShellConfig'
+        ),
+
+      setParkedRemotes: (scopes) =>
+        set({ parkedRemotes: scopes }, false, 'setParkedRemotes'),
+
+      setPageTitle: (title) => set({ pageTitle: title }, false, 'setPageTitle'),
+
+      setBreadcrumbs: (breadcrumbs) =>
+        set({ breadcrumbs }, false, 'setBreadcrumbs'),
+
       clearError: () => set({ error: null }, false, 'clearError'),
     }),
     { name: 'AppStore' }
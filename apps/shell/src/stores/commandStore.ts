@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { RemoteCommandAction, RemoteMenuItem } from '@one-portal/types';
+import {
+  readRecentCommands,
+  readRemoteMenus,
+  recordRecentCommand,
+  writeRemoteMenus,
+} from '../services/commandHistory';
+
+interface CommandState {
+  isPaletteOpen: boolean;
+  /** Menu trees registered by remotes, keyed by app id */
+  menus: Record<string, RemoteMenuItem[]>;
+  /** Runtime actions registered by mounted remotes, keyed by app id */
+  actions: Record<string, RemoteCommandAction[]>;
+  /** Command ids, most recently run first */
+  recentCommands: string[];
+  setPaletteOpen: (open: boolean) => void;
+  registerMenu: (appId: string, items: RemoteMenuItem[]) => void;
+  /** Returns an unregister function */
+  registerAction: (appId: string, action: RemoteCommandAction) => () => void;
+  /** Drop an app's actions once its remote is unmounted */
+  clearActions: (appId: string) => void;
+  recordRecent: (commandId: string) => void;
+}
+
+export const useCommandStore = create<CommandState>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      isPaletteOpen: false,
+      menus: readRemoteMenus(),
+      actions: {},
+      recentCommands: readRecentCommands(),
+
+      // Actions
+      setPaletteOpen: (open) =>
+        set({ isPaletteOpen: open }, false, 'setPaletteOpen'),
+
+      registerMenu: (appId, items) => {
+        const menus = { ...get().menus, [appId]: items };
+        writeRemoteMenus(menus);
+        set({ menus }, false, 'registerMenu');
+      },
+
+      registerAction: (appId, action) => {
+        const others = (get().actions[appId] ?? []).filter((a) => a.id !== action.id);
+        set(
+          { actions: { ...get().actions, [appId]: [...others, action] } },
+          false,
+          'registerAction'
+        );
+
+        return () => {
+          const current = get().actions[appId] ?? [];
+          set(
+            { actions: { ...get().actions, [appId]: current.filter((a) => a !== action) } },
+            false,
+            'unregisterAction'
+          );
+        };
+      },
+
+      clearActions: (appId) => {
+        const { [appId]: _removed, ...actions } = get().actions;
+        set({ actions }, false, 'clearActions');
+      },
+
+      recordRecent: (commandId) =>
+        set({ recentCommands: recordRecentCommand(commandId) }, false, 'recordRecent'),
+    }),
+    { name: 'CommandStore' }
+  )
+);
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { RemoteApp } from '@one-portal/types';
+import { probeRemotes, type RemoteHealth } from '../services/remoteHealth';
+
+interface HealthState {
+  /** Latest probe result per app id; apps not probed yet are missing */
+  health: Record<string, RemoteHealth>;
+  isChecking: boolean;
+  /** Probe the given apps; ignored while a previous run is in flight */
+  checkHealth: (apps: RemoteApp[]) => Promise<void>;
+}
+
+export const useHealthStore = create<HealthState>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      health: {},
+      isChecking: false,
+
+      // Actions
+      checkHealth: async (apps) => {
+        if (get().isChecking || apps.length === 0) {
+          return;
+        }
+
+        set({ isChecking: true }, false, 'checkHealth/start');
+        try {
+          const results = await probeRemotes(apps);
+          set(
+            (state) => ({ health: { ...state.health, ...results } }),
+            false,
+            'checkHealth/done'
+          );
+        } finally {
+          set({ isChecking: false }, false, 'checkHealth/end');
+        }
+      },
+    }),
+    { name: 'HealthStore' }
+  )
+);
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import {
+  publishMessage,
+  validatePartialPreferences,
+  type ShellConfiguration,
+  type ShellError,
+  type UserPreferences,
+} from '@one-portal/types';
+import { loadPreferences, savePreferences } from '../services/preferencesStorage';
+
+type PreferenceChanges = Partial<Pick<UserPreferences, 'theme' | 'language'>>;
+
+interface PreferencesState {
+  preferences: UserPreferences;
+  /** Last load or save failure (`PREF_LOAD_FAILED` / `PREF_SAVE_FAILED`) */
+  preferencesError: ShellError | null;
+  isHydrated: boolean;
+  /** Load stored preferences once per page load, layered over the config defaults */
+  hydratePreferences: (defaults?: ShellConfiguration['defaults']) => void;
+  /** Validate, persist and broadcast a change made by the user */
+  updatePreferences: (changes: PreferenceChanges) => void;
+  /** Adopt preferences saved by another tab without persisting them again */
+  receivePreferences: (preferences: UserPreferences) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  devtools(
+    (set, get) => ({
+      // Initial state (replaced by hydratePreferences once the config is known)
+      preferences: { theme: 'system', language: 'en' },
+      preferencesError: null,
+      isHydrated: false,
+
+      // Actions
+      hydratePreferences: (defaults) => {
+        if (get().isHydrated) {
+          return;
+        }
+        const { preferences, error } = loadPreferences(defaults);
+        set(
+          { preferences, preferencesError: error ?? null, isHydrated: true },
+          false,
+          'hydratePreferences'
+        );
+      },
+
+      updatePreferences: (changes) => {
+        const preferences: UserPreferences = {
+          ...get().preferences,
+          ...validatePartialPreferences(changes),
+          updatedAt: new Date(),
+        };
+        const error = savePreferences(preferences);
+
+        set(
+          { preferences, preferencesError: error },
+          false,
+          'updatePreferences'
+        );
+        publishMessage('shell:preferences-changed', { preferences }, { broadcast: true });
+      },
+
+      receivePreferences: (preferences) =>
+        set({ preferences }, false, 'receivePreferences'),
+    }),
+    { name: 'PreferencesStore' }
+  )
+);
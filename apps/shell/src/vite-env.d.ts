@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+declare module 'virtual:build-manifest' {
+  import type { BuildManifest } from '@one-portal/types';
+
+  const manifest: BuildManifest;
+  export default manifest;
+}
@@ -3,8 +3,8 @@ import react from '@vitejs/plugin-react';
 import { tanstackRouter } from '@tanstack/router-plugin/vite';
 import federation from '@originjs/vite-plugin-federation';
 import tailwindcss from '@tailwindcss/vite';
+import { buildManifest } from '@one-portal/config/vite';
 import tsconfigPaths from 'vite-tsconfig-paths';
-import path from 'path';
 
 const isDev = process.env.NODE_ENV === 'development';
 
@@ -17,6 +17,30 @@ const remotes = isDev
       domino: '/domino/assets/remoteEntry.js',
     };
 
+// Singletons shared with remotes; also recorded in the build manifest
+const shared = {
+  react: {
+    singleton: true,
+    requiredVersion: '^19.2.0',
+  },
+  'react-dom': {
+    singleton: true,
+    requiredVersion: '^19.2.0',
+  },
+  '@tanstack/react-query': {
+    singleton: true,
+  },
+  '@tanstack/react-router': {
+    singleton: true,
+  },
+  'lucide-react': {
+    singleton: true,
+  },
+  zustand: {
+    singleton: true,
+  },
+};
+
 export default defineConfig({
   plugins: [
     tsconfigPaths({ projects: ['../../packages/ui'] }),
@@ -25,36 +49,16 @@ export default defineConfig({
     react(),
     {
       name: 'hmr-logger',
-      handleHotUpdate({ file, server }) {
-        console.log(`[Shell HMR] File changed: ${file}`);
+      handleHotUpdate({ file }) {
+        console.info(`[Shell HMR] File changed: ${file}`);
         return;
       },
     },
+    buildManifest({ name: 'shell', shared }),
     federation({
       name: 'shell',
       remotes,
-      shared: {
-        react: {
-          singleton: true,
-          requiredVersion: '^19.2.0',
-        },
-        'react-dom': {
-          singleton: true,
-          requiredVersion: '^19.2.0',
-        },
-        '@tanstack/react-query': {
-          singleton: true,
-        },
-        '@tanstack/react-router': {
-          singleton: true,
-        },
-        'lucide-react': {
-          singleton: true,
-        },
-        zustand: {
-          singleton: true,
-        },
-      },
+      shared,
     }),
   ],
   server: {
@@ -0,0 +1,259 @@
+import { AuthErrorHandler } from "../errors";
+import type { TokenManager } from "../tokens/TokenManager";
+
+/**
+ * Scopes per API, keyed by absolute base URL (`https://api.contoso.com/v1`)
+ * or same-origin path prefix (`/api/orders`). The longest matching prefix
+ * wins; requests that match nothing are sent without a token.
+ *
+ * @example
+ * ```typescript
+ * const API_SCOPES: ScopeMap = {
+ *   'https://graph.microsoft.com': ['User.Read'],
+ *   '/api/domino': ['api://domino/Tasks.ReadWrite'],
+ * };
+ * ```
+ */
+export type ScopeMap = Record<string, string[]>;
+
+export interface AuthenticatedFetchConfig {
+  /** Token source, usually the provider's manager from `useTokenManager()` */
+  tokenManager: Pick<TokenManager, "getToken">;
+
+  scopes: ScopeMap;
+
+  /**
+   * Called when a token needs the user to sign in or consent. Defaults to an
+   * `AuthErrorHandler` toast. The request still fails with `ApiAuthError`.
+   */
+  onInteractionRequired?: (error: ApiAuthError) => void;
+}
+
+export type AuthenticatedFetch = (
+  input: string | URL,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * A token for the request could not be acquired without user interaction
+ * (`interaction_required`, `consent_required`, `login_required`).
+ * Recognized by `isAuthError`, so queries don't retry it.
+ */
+export class ApiAuthError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public scopes: string[],
+    public override cause?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiAuthError";
+  }
+}
+
+/**
+ * Non-2xx response from `ApiClient`. 401 and 403 are recognized by
+ * `isAuthError`, so queries don't retry them.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public url: string,
+    public body?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+function resolveUrl(input: string | URL): URL {
+  return new URL(input, window.location.origin);
+}
+
+/**
+ * Scopes of the longest prefix in `scopes` that matches `url`, if any.
+ * Prefixes match whole path segments: `/api` covers `/api/x`, not `/apix`.
+ */
+function findScopes(scopes: ScopeMap, url: URL): string[] | null {
+  let match: { length: number; scopes: string[] } | null = null;
+
+  for (const [prefix, prefixScopes] of Object.entries(scopes)) {
+    const base = resolveUrl(prefix);
+    const basePath = base.pathname.replace(/\/$/, "");
+    const matches =
+      url.origin === base.origin &&
+      (url.pathname === basePath || url.pathname.startsWith(`${basePath}/`));
+
+    if (matches && (!match || basePath.length > match.length)) {
+      match = { length: basePath.length, scopes: prefixScopes };
+    }
+  }
+
+  return match?.scopes ?? null;
+}
+
+/**
+ * Create a `fetch` that attaches a bearer token for the API a request goes
+ * to, based on `scopes`.
+ *
+ * - On a 401 the token is refreshed (`forceRefresh`) and the request is sent
+ *   once more. Bodies that are streams can't be sent twice.
+ * - When a token needs interaction, `onInteractionRequired` is called (an
+ *   `AuthErrorHandler` toast by default) and the request rejects with
+ *   `ApiAuthError`.
+ *
+ * @example
+ * ```typescript
+ * const authFetch = createAuthenticatedFetch({ tokenManager, scopes: API_SCOPES });
+ * const response = await authFetch('/api/domino/tasks');
+ * ```
+ */
+export function createAuthenticatedFetch(
+  config: AuthenticatedFetchConfig,
+): AuthenticatedFetch {
+  const {
+    tokenManager,
+    scopes,
+    onInteractionRequired = (error) => AuthErrorHandler.show(error.cause),
+  } = config;
+
+  const getAccessToken = async (
+    requestScopes: string[],
+    forceRefresh: boolean,
+  ): Promise<string> => {
+    try {
+      const result = await tokenManager.getToken(requestScopes, {
+        forceRefresh,
+      });
+      return result.accessToken;
+    } catch (error) {
+      if (!AuthErrorHandler.isInteractionRequired(error)) {
+        throw error;
+      }
+
+      const processed = AuthErrorHandler.process(error);
+      const authError = new ApiAuthError(
+        processed.message,
+        processed.code,
+        requestScopes,
+        error,
+      );
+      onInteractionRequired(authError);
+      throw authError;
+    }
+  };
+
+  return async (input, init = {}) => {
+    const requestScopes = findScopes(scopes, resolveUrl(input));
+    if (!requestScopes) {
+      return fetch(input, init);
+    }
+
+    const send = async (forceRefresh: boolean) => {
+      const headers = new Headers(init.headers);
+      headers.set(
+        "Authorization",
+        `Bearer ${await getAccessToken(requestScopes, forceRefresh)}`,
+      );
+      return fetch(input, { ...init, headers });
+    };
+
+    const response = await send(false);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    if (import.meta.env.DEV) {
+      console.warn(
+        "[ApiClient] 401 from",
+        resolveUrl(input).href,
+        "- retrying with a refreshed token",
+      );
+    }
+    return send(true);
+  };
+}
+
+export interface ApiClientConfig {
+  /** Prefix for relative paths, e.g. `/api/domino` */
+  baseUrl?: string;
+
+  /** Usually from `createAuthenticatedFetch` or `useAuthenticatedFetch` */
+  fetch?: AuthenticatedFetch;
+}
+
+/**
+ * JSON API client over an (authenticated) fetch. Throws `ApiError` for
+ * non-2xx responses and returns `undefined` for 204.
+ *
+ * @example
+ * ```typescript
+ * const authFetch = useAuthenticatedFetch(API_SCOPES);
+ * const api = useMemo(() => new ApiClient({ baseUrl: '/api/domino', fetch: authFetch }), [authFetch]);
+ *
+ * const tasks = await api.get<Task[]>('/tasks');
+ * ```
+ */
+export class ApiClient {
+  private baseUrl: string;
+  private fetchImpl: AuthenticatedFetch;
+
+  constructor(config: ApiClientConfig = {}) {
+    this.baseUrl = config.baseUrl?.replace(/\/$/, "") ?? "";
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  get<T>(path: string, init?: RequestInit): Promise<T> {
+    return this.request<T>(path, { ...init, method: "GET" });
+  }
+
+  post<T>(path: string, body?: unknown, init?: RequestInit): Promise<T> {
+    return this.request<T>(path, { ...init, method: "POST" }, body);
+  }
+
+  put<T>(path: string, body?: unknown, init?: RequestInit): Promise<T> {
+    return this.request<T>(path, { ...init, method: "PUT" }, body);
+  }
+
+  patch<T>(path: string, body?: unknown, init?: RequestInit): Promise<T> {
+    return this.request<T>(path, { ...init, method: "PATCH" }, body);
+  }
+
+  delete<T>(path: string, init?: RequestInit): Promise<T> {
+    return this.request<T>(path, { ...init, method: "DELETE" });
+  }
+
+  async request<T>(path: string, init: RequestInit, body?: unknown): Promise<T> {
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+    const headers = new Headers(init.headers);
+    headers.set("Accept", "application/json");
+    if (body !== undefined) {
+      headers.set("Content-Type", "application/json");
+    }
+
+    const response = await this.fetchImpl(url, {
+      ...init,
+      headers,
+      body: body === undefined ? init.body : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorBody: unknown = await response
+        .json()
+        .catch(() => undefined);
+
+      throw new ApiError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        url,
+        errorBody,
+      );
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json() as Promise<T>;
+  }
+}
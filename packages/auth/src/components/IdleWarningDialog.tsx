@@ -0,0 +1,84 @@
+/**
+ * IdleWarningDialog Component
+ *
+ * Warns that the session is about to end for inactivity and lets the user
+ * stay signed in or sign out right away. Rendered by `UnifiedAuthProvider`
+ * when `idleSession` is set.
+ */
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  useUiTranslation,
+} from "@one-portal/ui";
+import type { IdleSessionManager } from "../session/IdleSessionManager";
+
+interface Props {
+  /** Manager whose warning state opens the dialog */
+  manager: IdleSessionManager;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Idle session warning with a countdown to sign-out
+ *
+ * Closing the dialog (Escape, the close button or clicking outside) counts
+ * as staying signed in.
+ */
+export function IdleWarningDialog({ manager }: Props) {
+  const { status, signOutAt } = useSyncExternalStore(
+    manager.subscribe,
+    manager.getState,
+  );
+  const [now, setNow] = useState(() => Date.now());
+  const { t } = useUiTranslation();
+  const open = status === "warning";
+
+  useEffect(() => {
+    if (!open) return;
+
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [open]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) manager.staySignedIn();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("idle.title")}</DialogTitle>
+          <DialogDescription className="tabular-nums">
+            {t("idle.description", {
+              time: formatRemaining(signOutAt - now),
+            })}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => void manager.signOut()}>
+            {t("idle.signOut")}
+          </Button>
+          <Button onClick={() => manager.staySignedIn()}>
+            {t("idle.staySignedIn")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,3 +6,4 @@ export {
   RemoteErrorBoundary,
   withRemoteErrorBoundary,
 } from './RemoteErrorBoundary';
+export { IdleWarningDialog } from './IdleWarningDialog';
@@ -0,0 +1,286 @@
+/**
+ * @module @one-portal/auth/consent
+ * @description Named scope groups with cached consent status and incremental consent
+ */
+
+import {
+  EventType,
+  type EventMessage,
+  type IPublicClientApplication,
+} from "@azure/msal-browser";
+import { AuthErrorHandler } from "../errors";
+import { publishAuthEvent } from "../events";
+import {
+  acquireTokenInteractive,
+  type InteractionStrategy,
+} from "../interaction/interactiveAuth";
+import type { TokenManager } from "../tokens/TokenManager";
+
+/**
+ * Scopes per feature, keyed by a name such as `graph:directory` or
+ * `api:billing.write`
+ *
+ * @example
+ * ```typescript
+ * export const SCOPE_GROUPS: ScopeGroups = {
+ *   'graph:directory': ['User.Read.All', 'Directory.Read.All'],
+ *   'api:billing.write': ['api://billing/Billing.Write'],
+ * };
+ * ```
+ */
+export type ScopeGroups = Record<string, string[]>;
+
+/**
+ * - `unknown`: not checked yet
+ * - `checking`: a silent token request is in flight
+ * - `granted`: a token for every scope in the group can be acquired silently
+ * - `consent-required`: the user must consent (or sign in again) interactively
+ * - `error`: the check failed for another reason (network, configuration)
+ */
+export type ConsentStatus =
+  | "unknown"
+  | "checking"
+  | "granted"
+  | "consent-required"
+  | "error";
+
+export interface ScopeConsentState {
+  status: ConsentStatus;
+  scopes: string[];
+  error: unknown;
+}
+
+export interface RequestConsentOptions {
+  /** Defaults to the manager's `interactionStrategy` */
+  interaction?: InteractionStrategy;
+
+  /** Claims challenge from a `WWW-Authenticate` header or Conditional Access */
+  claims?: string;
+}
+
+export interface ConsentManagerConfig {
+  msalInstance: IPublicClientApplication;
+  tokenManager: Pick<TokenManager, "getToken">;
+  scopeGroups: ScopeGroups;
+
+  /**
+   * How consent is requested unless `requestConsent` says otherwise
+   * @default 'popup'
+   */
+  interactionStrategy?: InteractionStrategy;
+
+  /** Application name for logging and event publishing */
+  appName: string;
+}
+
+/**
+ * Tracks whether the user has consented to each scope group and runs
+ * incremental consent for the ones they haven't.
+ *
+ * Consent is checked with a silent token request through the token manager,
+ * so a granted group also leaves a tracked token behind. Results are cached
+ * until the account changes or the user signs out, and shared by every
+ * `useScopes()` caller.
+ *
+ * `UnifiedAuthProvider` creates one from its `scopeGroups` prop.
+ */
+export class ConsentManager {
+  private config: ConsentManagerConfig;
+  private states: Map<string, ScopeConsentState>;
+  private checks: Map<string, Promise<ScopeConsentState>>;
+  private listeners: Set<() => void>;
+  private eventCallbackId: string | null;
+  private generation: number;
+
+  constructor(config: ConsentManagerConfig) {
+    this.config = config;
+    this.states = new Map();
+    this.checks = new Map();
+    this.listeners = new Set();
+    this.eventCallbackId = null;
+    this.generation = 0;
+  }
+
+  /**
+   * Start listening for account changes and logout, which reset the cache
+   */
+  public start(): void {
+    if (this.eventCallbackId) return;
+
+    this.eventCallbackId = this.config.msalInstance.addEventCallback(
+      this.handleMsalEvent,
+    );
+  }
+
+  public stop(): void {
+    if (this.eventCallbackId) {
+      this.config.msalInstance.removeEventCallback(this.eventCallbackId);
+      this.eventCallbackId = null;
+    }
+  }
+
+  /**
+   * Subscribe to status changes of any group
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Scopes of a group. Throws for groups missing from `scopeGroups`.
+   */
+  public getScopes(group: string): string[] {
+    const scopes = this.config.scopeGroups[group];
+    if (!scopes) {
+      throw new Error(
+        `[${this.config.appName}] Unknown scope group "${group}". Declare it in UnifiedAuthProvider's scopeGroups.`,
+      );
+    }
+    return scopes;
+  }
+
+  /**
+   * Cached state of a group. The same object is returned until it changes.
+   */
+  public getState(group: string): ScopeConsentState {
+    let state = this.states.get(group);
+    if (!state) {
+      state = { status: "unknown", scopes: this.getScopes(group), error: null };
+      this.states.set(group, state);
+    }
+    return state;
+  }
+
+  /**
+   * Check consent silently. Concurrent checks of a group share one request;
+   * `force` re-checks a group whose status is already known.
+   */
+  public check(group: string, force = false): Promise<ScopeConsentState> {
+    const current = this.getState(group);
+    const pending = this.checks.get(group);
+
+    if (pending) return pending;
+    if (!force && current.status !== "unknown") {
+      return Promise.resolve(current);
+    }
+
+    this.setState(group, { status: "checking", error: null });
+    const generation = this.generation;
+
+    const check = this.config.tokenManager
+      .getToken(current.scopes)
+      .then(
+        () => ({ status: "granted" as const, error: null }),
+        (error: unknown) => ({
+          status: AuthErrorHandler.isInteractionRequired(error)
+            ? ("consent-required" as const)
+            : ("error" as const),
+          error,
+        }),
+      )
+      .then((update) =>
+        // Result for an account that is no longer active
+        generation === this.generation
+          ? this.setState(group, update)
+          : this.getState(group),
+      )
+      .finally(() => {
+        // clear() may have let a newer check for this group start meanwhile
+        if (this.checks.get(group) === check) {
+          this.checks.delete(group);
+        }
+      });
+
+    this.checks.set(group, check);
+    return check;
+  }
+
+  /**
+   * Ask the user to consent to a group's scopes. With a popup the promise
+   * resolves to the new state; with a redirect the page navigates away and
+   * the group is re-checked when the app loads again.
+   */
+  public async requestConsent(
+    group: string,
+    options: RequestConsentOptions = {},
+  ): Promise<ScopeConsentState> {
+    const { msalInstance, appName } = this.config;
+    const {
+      interaction = this.config.interactionStrategy ?? "popup",
+      claims,
+    } = options;
+    const { scopes } = this.getState(group);
+    const account =
+      msalInstance.getActiveAccount() ?? msalInstance.getAllAccounts()[0];
+
+    try {
+      const result = await acquireTokenInteractive({
+        msalInstance,
+        strategy: interaction,
+        request: { scopes, account, claims },
+        returnUrl:
+          window.location.pathname +
+          window.location.search +
+          window.location.hash,
+        telemetry: { metadata: { consent: group } },
+      });
+
+      // Redirecting; the group is checked again once the app reloads
+      if (!result) {
+        return this.getState(group);
+      }
+
+      publishAuthEvent("auth:token-acquired", {
+        scopes: result.scopes,
+        appName,
+      });
+
+      return this.setState(group, { status: "granted", error: null });
+    } catch (error) {
+      // A closed popup or failed claims challenge doesn't revoke earlier consent
+      return this.setState(group, {
+        status:
+          this.getState(group).status === "granted"
+            ? "granted"
+            : "consent-required",
+        error,
+      });
+    }
+  }
+
+  /**
+   * Forget every cached status, e.g. after the account changed
+   */
+  public clear(): void {
+    this.generation += 1;
+    this.states.clear();
+    this.checks.clear();
+    this.notify();
+  }
+
+  private setState(
+    group: string,
+    update: Pick<ScopeConsentState, "status" | "error">,
+  ): ScopeConsentState {
+    const state = { ...this.getState(group), ...update };
+    this.states.set(group, state);
+    this.notify();
+    return state;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private handleMsalEvent = (message: EventMessage): void => {
+    if (
+      message.eventType === EventType.LOGOUT_SUCCESS ||
+      message.eventType === EventType.ACTIVE_ACCOUNT_CHANGED
+    ) {
+      this.clear();
+    }
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * @module @one-portal/auth/consent
+ * @description Named scope groups and incremental consent
+ */
+
+export { ConsentManager } from './ConsentManager';
+export type {
+  ScopeGroups,
+  ConsentStatus,
+  ScopeConsentState,
+  RequestConsentOptions,
+  ConsentManagerConfig,
+} from './ConsentManager';
@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import type { ConsentManager } from '../consent/ConsentManager';
+
+/**
+ * Consent manager created by `UnifiedAuthProvider` from its `scopeGroups`.
+ * `null` outside the provider.
+ */
+export const ConsentManagerContext = createContext<ConsentManager | null>(null);
+
+ConsentManagerContext.displayName = 'ConsentManagerContext';
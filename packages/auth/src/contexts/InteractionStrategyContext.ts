@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import type { InteractionStrategy } from '../interaction/interactiveAuth';
+
+/**
+ * `interactionStrategy` of the nearest `UnifiedAuthProvider`.
+ * `'redirect'` outside the provider.
+ */
+export const InteractionStrategyContext = createContext<InteractionStrategy>('redirect');
+
+InteractionStrategyContext.displayName = 'InteractionStrategyContext';
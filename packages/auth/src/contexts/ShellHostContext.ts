@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import type { ShellHostApi } from '@one-portal/types';
+
+/**
+ * Host API handed to a remote by the shell on mount.
+ * `null` when the remote renders outside the shell.
+ */
+export const ShellHostContext = createContext<ShellHostApi | null>(null);
+
+ShellHostContext.displayName = 'ShellHostContext';
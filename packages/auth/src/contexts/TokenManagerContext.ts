@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import type { TokenManager } from '../tokens/TokenManager';
+
+/**
+ * Token manager created by `UnifiedAuthProvider`.
+ * `null` outside the provider.
+ */
+export const TokenManagerContext = createContext<TokenManager | null>(null);
+
+TokenManagerContext.displayName = 'TokenManagerContext';
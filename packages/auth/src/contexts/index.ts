@@ -1,3 +1,7 @@
 // Barrel export for auth contexts
 export { AuthContext, useAuth, useAuthState, useIsAuthenticated } from './AuthContext';
 export type { AuthContextValue } from './AuthContext';
+export { ShellHostContext } from './ShellHostContext';
+export { TokenManagerContext } from './TokenManagerContext';
+export { ConsentManagerContext } from './ConsentManagerContext';
+export { InteractionStrategyContext } from './InteractionStrategyContext';
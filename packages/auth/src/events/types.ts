@@ -1,9 +1,14 @@
+import type { AuthTelemetryEvent } from '../types/auth';
+
 export type AuthEventType =
   | 'auth:signed-in'
   | 'auth:signed-out'
   | 'auth:token-acquired'
   | 'auth:account-changed'
-  | 'auth:error';
+  | 'auth:error'
+  | 'auth:telemetry'
+  | 'auth:activity'
+  | 'auth:signed-out-ack';
 
 /**
  * Error structure for auth events (serialized over BroadcastChannel)
@@ -31,18 +36,37 @@ export type AuthEventData = {
   'auth:signed-out': {
     appName: string;
     clientId: string;
+    /** Set by `signOutEverywhere`; receivers answer with `auth:signed-out-ack` */
+    logoutId?: string;
   };
   'auth:token-acquired': {
     scopes: string[];
     appName: string;
   };
   'auth:account-changed': {
+    loginHint: string;
     accountId: string;
     appName: string;
   };
   'auth:error': {
     error: AuthEventError;
   };
+  'auth:telemetry': {
+    /** The event timestamp is the `AuthEvent` timestamp */
+    event: Omit<AuthTelemetryEvent, 'timestamp'>;
+    /** Window that emitted it, to tell same-window remotes from other tabs */
+    windowId: string;
+  };
+  'auth:activity': {
+    /** When the user was last active in the sending tab (ms since epoch) */
+    lastActivityAt: number;
+    appName: string;
+  };
+  'auth:signed-out-ack': {
+    logoutId: string;
+    appName: string;
+    windowId: string;
+  };
 };
 
 /**
@@ -80,7 +104,16 @@ export function isAuthEvent(event: unknown): event is AuthEvent {
     typeof e.timestamp === 'number' &&
     typeof e.payload === 'object' &&
     e.payload !== null &&
-    ['auth:signed-in', 'auth:signed-out', 'auth:token-acquired', 'auth:account-changed', 'auth:error'].includes(e.type)
+    [
+      'auth:signed-in',
+      'auth:signed-out',
+      'auth:token-acquired',
+      'auth:account-changed',
+      'auth:error',
+      'auth:telemetry',
+      'auth:activity',
+      'auth:signed-out-ack',
+    ].includes(e.type)
   );
 }
 
@@ -1,4 +1,4 @@
-import type { PublicClientApplication } from "@azure/msal-browser";
+import type { AccountInfo, PublicClientApplication } from "@azure/msal-browser";
 import {
   createRouteGuard,
   type MsalRouteGuardConfig,
@@ -24,6 +24,31 @@ export interface RouteGuardOptions {
    */
   onUnauthenticated?: (returnUrl: string) => void;
 
+  /**
+   * Roles from the ID token `roles` claim; the user needs at least one.
+   */
+  requiredRoles?: string[];
+
+  /**
+   * Scopes from the ID token `scp` claim; the user needs all of them.
+   */
+  requiredScopes?: string[];
+
+  /**
+   * Custom authorization check, run after roles and scopes.
+   *
+   * @param account - The active account
+   */
+  authorize?: (account: AccountInfo) => boolean | Promise<boolean>;
+
+  /**
+   * Custom handler for signed-in users who fail the authorization checks.
+   * If not provided, redirects to `/forbidden?returnUrl=...`
+   *
+   * @param returnUrl - The URL the user was trying to access
+   */
+  onForbidden?: (returnUrl: string) => void;
+
   /**
    * Custom handler for authentication errors.
    * If not provided, uses AuthErrorHandler to show toast notification.
@@ -45,6 +70,12 @@ export interface RouteGuardOptions {
    * @default '/sign-in'
    */
   signInRoute?: string;
+
+  /**
+   * Route shown to users who are not authorized.
+   * @default '/forbidden'
+   */
+  forbiddenRoute?: string;
 }
 
 /**
@@ -53,6 +84,7 @@ export interface RouteGuardOptions {
  * Uses sensible defaults:
  * - Standard scopes: `['openid', 'profile', 'email']`
  * - Redirects to `/sign-in?returnUrl=...` for unauthenticated users
+ * - Redirects to `/forbidden?returnUrl=...` when role, scope or `authorize` checks fail
  * - Shows error toast notifications via AuthErrorHandler
  * - Works with TanStack Router's beforeLoad hook
  *
@@ -81,6 +113,17 @@ export interface RouteGuardOptions {
  *
  * @example
  * ```tsx
+ * // Role-restricted route
+ * export const Route = createFileRoute('/admin')({
+ *   beforeLoad: createProtectedRouteGuard(msalInstance, {
+ *     requiredRoles: ['Portal.Admin'],
+ *   }),
+ *   component: AdminPage,
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
  * // Custom configuration
  * export const Route = createRootRoute({
  *   beforeLoad: createProtectedRouteGuard(msalInstance, {
@@ -100,7 +143,12 @@ export function createProtectedRouteGuard(
   const {
     scopes = ["openid", "profile", "email"],
     signInRoute = "/sign-in",
+    forbiddenRoute = "/forbidden",
+    requiredRoles,
+    requiredScopes,
+    authorize,
     onUnauthenticated,
+    onForbidden,
     onAuthError,
     skipRedirectOnPreload = false,
   } = options;
@@ -108,6 +156,9 @@ export function createProtectedRouteGuard(
   const config: MsalRouteGuardConfig = {
     msalInstance,
     scopes,
+    requiredRoles,
+    requiredScopes,
+    authorize,
     onUnauthenticated:
       onUnauthenticated ??
       ((returnUrl: string) => {
@@ -115,6 +166,13 @@ export function createProtectedRouteGuard(
         const signInUrl = `${signInRoute}?returnUrl=${encodeURIComponent(returnUrl)}`;
         safeRedirect(signInUrl, signInRoute);
       }),
+    onForbidden:
+      onForbidden ??
+      ((returnUrl: string) => {
+        // Default: redirect to the forbidden page with return URL
+        const forbiddenUrl = `${forbiddenRoute}?returnUrl=${encodeURIComponent(returnUrl)}`;
+        safeRedirect(forbiddenUrl, forbiddenRoute);
+      }),
     onAuthError:
       onAuthError ??
       ((error: Error) => {
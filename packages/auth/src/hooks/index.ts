@@ -1,2 +1,7 @@
 export { useAuth } from './useAuth';
+export { useShellHost } from './useShellHost';
+export { useTokenManager } from './useTokenManager';
+export { useAuthenticatedFetch } from './useAuthenticatedFetch';
+export { useScopes } from './useScopes';
+export type { UseScopesReturn } from './useScopes';
 
@@ -1,8 +1,33 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useContext, useSyncExternalStore } from 'react';
 import { useMsal } from '@azure/msal-react';
-import { InteractionStatus } from '@azure/msal-browser';
+import { EventType, InteractionStatus, type AuthenticationResult, type IPublicClientApplication } from '@azure/msal-browser';
 import type { AuthState, UseAuthReturn, UserProfile } from '../types/auth';
 import { acquireToken } from '../utils/acquireToken';
+import { trackAuthOperation } from '../telemetry';
+import { TokenManagerContext } from '../contexts/TokenManagerContext';
+import { InteractionStrategyContext } from '../contexts/InteractionStrategyContext';
+import { loginInteractive, acquireTokenInteractive } from '../interaction/interactiveAuth';
+import { AuthErrorHandler } from '../errors';
+
+const LOGIN_SCOPES = ['openid', 'profile', 'email'];
+
+/**
+ * Home account ID of MSAL's active account, re-read whenever it changes
+ */
+function useActiveAccountId(instance: IPublicClientApplication): string | null {
+    const subscribe = useCallback((onChange: () => void) => {
+        const callbackId = instance.addEventCallback((message) => {
+            if (message.eventType === EventType.ACTIVE_ACCOUNT_CHANGED) {
+                onChange();
+            }
+        });
+        return () => {
+            if (callbackId) instance.removeEventCallback(callbackId);
+        };
+    }, [instance]);
+
+    return useSyncExternalStore(subscribe, () => instance.getActiveAccount()?.homeAccountId ?? null);
+}
 
 /**
  * Enhanced authentication hook that abstracts MSAL dependency from apps.
@@ -13,6 +38,9 @@ import { acquireToken } from '../utils/acquireToken';
  * This hook implements the UseAuthReturn interface and can be used as a
  * drop-in replacement for the context-based useAuth.
  * 
+ * Login, logout and token acquisition are reported as auth telemetry.
+ * Interactive calls use the provider's `interactionStrategy`.
+ * 
  * @example
  * ```tsx
  * function MyComponent() {
@@ -59,10 +87,15 @@ import { acquireToken } from '../utils/acquireToken';
  */
 export function useAuth(): UseAuthReturn {
     const { instance, accounts, inProgress } = useMsal();
+    const tokenManager = useContext(TokenManagerContext);
+    const interactionStrategy = useContext(InteractionStrategyContext);
     const [error, setError] = useState<any>(null);
 
-    // Current account
-    const account = accounts[0] ?? null;
+    // Active account, falling back to the first cached one
+    const activeAccountId = useActiveAccountId(instance);
+    const account = accounts.find((candidate) => candidate.homeAccountId === activeAccountId)
+        ?? accounts[0]
+        ?? null;
 
     // Build user profile from account claims
     const userProfile: UserProfile | null = account ? {
@@ -85,10 +118,11 @@ export function useAuth(): UseAuthReturn {
     };
 
     /**
-     * Sign in the user with interactive login redirect.
+     * Sign in the user interactively.
      * 
-     * The user will be redirected to Azure AD for authentication,
-     * then returned to the application.
+     * With a popup the result is handed back and the page stays as it is.
+     * With a redirect the user is sent to Azure AD and returned to the
+     * application, and the promise resolves to `null`.
      * 
      * @example
      * ```tsx
@@ -96,19 +130,73 @@ export function useAuth(): UseAuthReturn {
      * await login();
      * ```
      */
-    const login = useCallback(async (): Promise<void> => {
+    const login = useCallback(async (): Promise<AuthenticationResult | null> => {
         try {
             setError(null);
-            await instance.loginRedirect({
-                scopes: ['openid', 'profile', 'email'],
-                prompt: 'select_account',
+            return await loginInteractive({
+                msalInstance: instance,
+                strategy: interactionStrategy,
+                request: {
+                    scopes: LOGIN_SCOPES,
+                    prompt: 'select_account',
+                },
             });
         } catch (err) {
             console.error('[useAuth] Login failed:', err);
             setError(err);
             throw err;
         }
-    }, [instance]);
+    }, [instance, interactionStrategy]);
+
+    /**
+     * Make another cached account the active one.
+     * 
+     * The account's session is checked silently first. When it has expired,
+     * the user signs in again with that account instead. The
+     * provider publishes `auth:account-changed` so embedded remotes follow.
+     * 
+     * @param homeAccountId - `homeAccountId` of an entry in `accounts`
+     * 
+     * @example
+     * ```tsx
+     * {accounts.map((a) => (
+     *   <button key={a.homeAccountId} onClick={() => switchAccount(a.homeAccountId)}>
+     *     {a.username}
+     *   </button>
+     * ))}
+     * ```
+     */
+    const switchAccount = useCallback(async (homeAccountId: string): Promise<void> => {
+        const target = instance.getAllAccounts().find((candidate) => candidate.homeAccountId === homeAccountId);
+        if (!target) {
+            throw new Error(`[useAuth] No cached account with homeAccountId ${homeAccountId}`);
+        }
+        if (instance.getActiveAccount()?.homeAccountId === homeAccountId) {
+            return;
+        }
+
+        try {
+            setError(null);
+            await instance.acquireTokenSilent({ scopes: LOGIN_SCOPES, account: target });
+            instance.setActiveAccount(target);
+        } catch (err) {
+            if (AuthErrorHandler.isInteractionRequired(err)) {
+                await loginInteractive({
+                    msalInstance: instance,
+                    strategy: interactionStrategy,
+                    request: {
+                        scopes: LOGIN_SCOPES,
+                        loginHint: target.username,
+                    },
+                    telemetry: { metadata: { trigger: 'switch-account' } },
+                });
+                return;
+            }
+            console.error('[useAuth] Account switch failed:', err);
+            setError(err);
+            throw err;
+        }
+    }, [instance, interactionStrategy]);
 
     /**
      * Sign out the user and clear session.
@@ -130,10 +218,14 @@ export function useAuth(): UseAuthReturn {
     const logout = useCallback(async (postLogoutRedirectUri?: string): Promise<void> => {
         try {
             setError(null);
-            await instance.logoutRedirect({
-                account: account ?? undefined,
-                postLogoutRedirectUri: postLogoutRedirectUri ?? window.location.origin,
-            });
+            await trackAuthOperation(
+                'logout',
+                () => instance.logoutRedirect({
+                    account: account ?? undefined,
+                    postLogoutRedirectUri: postLogoutRedirectUri ?? window.location.origin,
+                }),
+                { metadata: { interaction: 'redirect' } }
+            );
         } catch (err) {
             console.error('[useAuth] Logout failed:', err);
             setError(err);
@@ -145,6 +237,8 @@ export function useAuth(): UseAuthReturn {
      * Acquire an access token for the specified scopes.
      * 
      * Attempts silent token acquisition first, falls back to interactive if needed.
+     * Inside `UnifiedAuthProvider` tokens go through its `TokenManager`, which
+     * reuses them until shortly before expiry and refreshes them proactively.
      * 
      * @param scopes - OAuth scopes to request
      * @returns Access token string or null if acquisition fails
@@ -170,18 +264,57 @@ export function useAuth(): UseAuthReturn {
 
         try {
             setError(null);
-            const result = await acquireToken({
-                msalInstance: instance,
-                account,
-                scopes,
-            });
+            const result = tokenManager
+                ? await tokenManager.getToken(scopes)
+                : await acquireToken({
+                    msalInstance: instance,
+                    account,
+                    scopes,
+                });
             return result.accessToken;
         } catch (err) {
             console.error('[useAuth] Token acquisition failed:', err);
             setError(err);
             return null;
         }
-    }, [instance, account]);
+    }, [instance, account, tokenManager]);
+
+    /**
+     * Acquire an access token interactively, e.g. to answer a claims challenge
+     * or consent to new scopes outside of `useScopes`.
+     * 
+     * @param scopes - OAuth scopes to request
+     * @param options - `claims` challenge from the API
+     * @returns Access token from a popup, or null when redirecting
+     * 
+     * @example
+     * ```tsx
+     * const token = await acquireTokenInteractive(['Mail.Send'], { claims });
+     * ```
+     */
+    const acquireTokenWithInteraction = useCallback(async (
+        scopes: string[],
+        options: { claims?: string } = {}
+    ): Promise<string | null> => {
+        try {
+            setError(null);
+            const result = await acquireTokenInteractive({
+                msalInstance: instance,
+                strategy: interactionStrategy,
+                request: {
+                    scopes,
+                    account: account ?? undefined,
+                    claims: options.claims,
+                },
+                returnUrl: window.location.pathname + window.location.search + window.location.hash,
+            });
+            return result?.accessToken ?? null;
+        } catch (err) {
+            console.error('[useAuth] Interactive token acquisition failed:', err);
+            setError(err);
+            throw err;
+        }
+    }, [instance, account, interactionStrategy]);
 
     /**
      * Check if the current user has specific role(s).
@@ -231,9 +364,12 @@ export function useAuth(): UseAuthReturn {
 
     return {
         state,
+        accounts,
+        switchAccount,
         login,
         logout,
         acquireToken: acquireTokenSilent,
+        acquireTokenInteractive: acquireTokenWithInteraction,
         hasRole,
         clearError,
     };
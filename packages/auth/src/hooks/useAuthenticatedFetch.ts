@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { createAuthenticatedFetch, type AuthenticatedFetch, type ScopeMap } from '../api/ApiClient';
+import { useTokenManager } from './useTokenManager';
+
+/**
+ * `fetch` with bearer tokens for the APIs in `scopes`, backed by the
+ * provider's token manager. Keep `scopes` stable (e.g. a module constant),
+ * or the returned function changes on every render.
+ *
+ * @example
+ * ```tsx
+ * const API_SCOPES = { '/api/domino': ['api://domino/Tasks.Read'] };
+ *
+ * function useTasks() {
+ *   const authFetch = useAuthenticatedFetch(API_SCOPES);
+ *   return useQuery({
+ *     queryKey: ['tasks'],
+ *     queryFn: async () => (await authFetch('/api/domino/tasks')).json(),
+ *   });
+ * }
+ * ```
+ */
+export function useAuthenticatedFetch(scopes: ScopeMap): AuthenticatedFetch {
+  const tokenManager = useTokenManager();
+  return useMemo(() => createAuthenticatedFetch({ tokenManager, scopes }), [tokenManager, scopes]);
+}
@@ -0,0 +1,69 @@
+import { useCallback, useContext, useEffect, useSyncExternalStore } from 'react';
+import { ConsentManagerContext } from '../contexts/ConsentManagerContext';
+import type {
+  RequestConsentOptions,
+  ScopeConsentState,
+} from '../consent/ConsentManager';
+
+export interface UseScopesReturn extends ScopeConsentState {
+  /** `status === 'granted'` */
+  isGranted: boolean;
+
+  /** Run interactive consent for the group (popup by default) */
+  requestConsent: (options?: RequestConsentOptions) => Promise<ScopeConsentState>;
+
+  /** Check again silently, e.g. after consent was granted in another tab */
+  recheck: () => Promise<ScopeConsentState>;
+}
+
+/**
+ * Consent status of a scope group declared in `UnifiedAuthProvider`'s
+ * `scopeGroups`. The group is checked silently on first use; the result is
+ * cached and shared with every other caller.
+ *
+ * @example
+ * ```tsx
+ * const directory = useScopes('graph:directory');
+ *
+ * if (!directory.isGranted) {
+ *   return (
+ *     <Button
+ *       disabled={directory.status === 'checking'}
+ *       onClick={() => directory.requestConsent()}
+ *     >
+ *       Allow directory access
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useScopes(group: string): UseScopesReturn {
+  const consent = useContext(ConsentManagerContext);
+  if (!consent) {
+    throw new Error('useScopes must be used within UnifiedAuthProvider');
+  }
+
+  const state = useSyncExternalStore(consent.subscribe, () =>
+    consent.getState(group),
+  );
+
+  useEffect(() => {
+    if (state.status === 'unknown') {
+      void consent.check(group);
+    }
+  }, [consent, group, state.status]);
+
+  const requestConsent = useCallback(
+    (options?: RequestConsentOptions) => consent.requestConsent(group, options),
+    [consent, group],
+  );
+
+  const recheck = useCallback(() => consent.check(group, true), [consent, group]);
+
+  return {
+    ...state,
+    isGranted: state.status === 'granted',
+    requestConsent,
+    recheck,
+  };
+}
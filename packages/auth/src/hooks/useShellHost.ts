@@ -0,0 +1,64 @@
+import { useContext, useMemo } from 'react';
+import { toast } from '@one-portal/ui';
+import type { RemoteAccount, ShellHostApi, Theme } from '@one-portal/types';
+import { ShellHostContext } from '../contexts/ShellHostContext';
+import { getEmbeddedModeConfig, isEmbeddedMode, type EmbeddedModeConfig } from '../utils/environment';
+import { useAuth } from './useAuth';
+
+/**
+ * Access the shell host API from inside a remote.
+ *
+ * Embedded in the shell (see `isEmbeddedMode`), returns the API the shell
+ * passed on mount. Standalone, returns a stub backed by the remote's own
+ * session: notifications use the local toaster, the title is set directly and
+ * shell-only operations (cross-app navigation, breadcrumbs, command palette
+ * registration) are no-ops.
+ *
+ * @example
+ * ```tsx
+ * const shell = useShellHost();
+ * shell.notify('Task saved', 'success');
+ * shell.navigate('one-portal-admin', '/users');
+ * ```
+ */
+export function useShellHost(config: EmbeddedModeConfig = getEmbeddedModeConfig()): ShellHostApi {
+  const host = useContext(ShellHostContext);
+  const { state, acquireToken } = useAuth();
+  const { account } = state;
+
+  const standaloneHost = useMemo<ShellHostApi>(() => {
+    const user: RemoteAccount | null = account
+      ? { homeAccountId: account.homeAccountId, username: account.username, name: account.name }
+      : null;
+
+    return {
+      navigate: (appId, path = '') => {
+        console.warn(`[ShellHost] navigate('${appId}', '${path}') requires the shell; ignored in standalone mode`);
+      },
+      notify: (message, level = 'info') => {
+        toast[level](message);
+      },
+      setTitle: (title) => {
+        document.title = title;
+      },
+      setBreadcrumbs: () => {},
+      getTheme: getDocumentTheme,
+      onThemeChange: (listener) => {
+        const observer = new MutationObserver(() => listener(getDocumentTheme()));
+        observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+        return () => observer.disconnect();
+      },
+      getUser: () => user,
+      requestToken: acquireToken,
+      syncLocation: () => {},
+      registerMenu: () => {},
+      registerAction: () => () => {},
+    };
+  }, [account, acquireToken]);
+
+  return host && isEmbeddedMode(config) ? host : standaloneHost;
+}
+
+function getDocumentTheme(): Theme {
+  return document.documentElement.classList.contains('dark') ? 'dark' : 'light';
+}
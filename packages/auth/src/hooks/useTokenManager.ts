@@ -0,0 +1,21 @@
+import { useContext } from 'react';
+import { TokenManagerContext } from '../contexts/TokenManagerContext';
+import type { TokenManager } from '../tokens/TokenManager';
+
+/**
+ * Access the token manager created by `UnifiedAuthProvider`, e.g. to get a
+ * token with its expiry outside of `useAuth().acquireToken`.
+ *
+ * @example
+ * ```tsx
+ * const tokens = useTokenManager();
+ * const { accessToken, expiresOn } = await tokens.getToken(['User.Read']);
+ * ```
+ */
+export function useTokenManager(): TokenManager {
+  const tokenManager = useContext(TokenManagerContext);
+  if (!tokenManager) {
+    throw new Error('useTokenManager must be used within UnifiedAuthProvider');
+  }
+  return tokenManager;
+}
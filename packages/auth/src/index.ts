@@ -1,5 +1,6 @@
 export type * from './types';
 export * from './events';
+export * from './telemetry';
 export * from './config';
 export * from './factory/createMsalInstance';
 export * from './errors';
@@ -13,8 +14,21 @@ export {
     type InitializationCallback,
 } from './initialization';
 export { AuthContext, useAuth, useAuthState, useIsAuthenticated, defaultAuthState } from './contexts/AuthContext';
+export { ShellHostContext } from './contexts/ShellHostContext';
+export { TokenManagerContext } from './contexts/TokenManagerContext';
+export { ConsentManagerContext } from './contexts/ConsentManagerContext';
+export { InteractionStrategyContext } from './contexts/InteractionStrategyContext';
+export { useShellHost } from './hooks/useShellHost';
+export { useTokenManager } from './hooks/useTokenManager';
+export { useAuthenticatedFetch } from './hooks/useAuthenticatedFetch';
+export { useScopes, type UseScopesReturn } from './hooks/useScopes';
+export * from './tokens';
+export * from './consent';
+export * from './interaction';
+export * from './session';
 export * from './utils';
 export * from './api/GraphClient';
+export * from './api/ApiClient';
 export * from './components';
 
 
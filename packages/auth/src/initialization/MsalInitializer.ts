@@ -11,6 +11,12 @@ import {
 } from "@azure/msal-browser";
 import { AuthErrorHandler } from "../errors";
 import { publishAuthEvent } from "../events";
+import {
+  emitAuthTelemetry,
+  toTelemetryError,
+  trackAuthOperation,
+  type AuthTelemetrySource,
+} from "../telemetry";
 import {
   getLoginHint,
   safeRedirect,
@@ -18,6 +24,8 @@ import {
   setReturnUrl,
 } from "../utils";
 import { isEmbeddedMode } from "../utils/environment";
+import { loginInteractive } from "../interaction/interactiveAuth";
+import { clearLogoutMarker, readLogoutMarker } from "../session/singleSignOut";
 import type {
   InitConfig,
   InitializationMode,
@@ -60,6 +68,7 @@ function createDetectRouteType(
  * - Handles OAuth redirect flow
  * - Detects existing sessions
  * - Publishes auth events for remote apps
+ * - Reports login, token and SSO telemetry (see `emitAuthTelemetry`)
  *
  * ## Remote Mode (Domino)
  * - Attempts SSO silent authentication
@@ -350,6 +359,14 @@ export class MsalInitializer {
         // CRITICAL: Set the active account BEFORE any redirects
         // This ensures route guards can see the authenticated state
         msalInstance.setActiveAccount(response.account);
+        clearLogoutMarker();
+
+        emitAuthTelemetry({
+          ...this.getTelemetrySource(),
+          type: "login",
+          success: true,
+          metadata: { interaction: "redirect", stage: "complete" },
+        });
 
         const loginHint = getLoginHint(response.account);
         const accountId = response.account.homeAccountId;
@@ -377,6 +394,8 @@ export class MsalInitializer {
         }
         return;
       } else {
+        await this.endSessionAfterMissedLogout();
+
         // Check for existing session
         const accounts = msalInstance.getAllAccounts();
 
@@ -416,6 +435,14 @@ export class MsalInitializer {
       );
       AuthErrorHandler.show(processed);
 
+      emitAuthTelemetry({
+        ...this.getTelemetrySource(),
+        type: "error",
+        success: false,
+        error: { code: processed.code, message: processed.message },
+        metadata: { operation: "initialize", mode: "host" },
+      });
+
       publishAuthEvent("auth:error", {
         error: {
           code: processed.code,
@@ -493,6 +520,7 @@ export class MsalInitializer {
       // Initialize MSAL and handle any pending redirects
       await msalInstance.initialize();
       await msalInstance.handleRedirectPromise();
+      await this.endSessionAfterMissedLogout();
 
       if (debug) {
         console.info(
@@ -518,10 +546,18 @@ export class MsalInitializer {
           // This is the PRIMARY authentication path for embedded remotes
           try {
             const { getAuthConfig } = this.config;
-            await msalInstance.acquireTokenSilent({
-              scopes: getAuthConfig().scopes,
-              account,
-            });
+            await trackAuthOperation(
+              "token-acquired",
+              () =>
+                msalInstance.acquireTokenSilent({
+                  scopes: getAuthConfig().scopes,
+                  account,
+                }),
+              {
+                ...this.getTelemetrySource(),
+                metadata: { trigger: "initialize", embedded: true },
+              },
+            );
 
             if (debug) {
               console.info(
@@ -581,6 +617,14 @@ export class MsalInitializer {
           response.account.username,
         );
         msalInstance.setActiveAccount(response.account);
+        clearLogoutMarker();
+
+        emitAuthTelemetry({
+          ...this.getTelemetrySource(),
+          type: "login",
+          success: true,
+          metadata: { interaction: "redirect", stage: "complete" },
+        });
 
         const loginHint = getLoginHint(response.account);
         const accountId = response.account.homeAccountId;
@@ -609,6 +653,8 @@ export class MsalInitializer {
         return;
       }
 
+      await this.endSessionAfterMissedLogout();
+
       console.info(
         `[${appName}] No redirect response, checking for existing accounts...`,
       );
@@ -625,11 +671,21 @@ export class MsalInitializer {
         msalInstance.setActiveAccount(account);
 
         console.info(`[${appName}] Attempting to acquire token silently...`);
+        const telemetry = {
+          ...this.getTelemetrySource(),
+          metadata: { trigger: "initialize", embedded: false },
+        };
+
         try {
-          await msalInstance.acquireTokenSilent({
-            scopes: getAuthConfig().scopes,
-            account,
-          });
+          await trackAuthOperation(
+            "token-acquired",
+            () =>
+              msalInstance.acquireTokenSilent({
+                scopes: getAuthConfig().scopes,
+                account,
+              }),
+            telemetry,
+          );
 
           console.info(`[${appName}] ✅ Standalone token acquired silently`);
           return;
@@ -637,10 +693,15 @@ export class MsalInitializer {
           console.warn(`[${appName}] Token acquisition failed, trying SSO...`);
           // Token refresh failed, try SSO
           try {
-            const ssoResult = await msalInstance.ssoSilent({
-              scopes: getAuthConfig().scopes,
-              loginHint: account.username,
-            });
+            const ssoResult = await trackAuthOperation(
+              "silent-sso",
+              () =>
+                msalInstance.ssoSilent({
+                  scopes: getAuthConfig().scopes,
+                  loginHint: account.username,
+                }),
+              telemetry,
+            );
             msalInstance.setActiveAccount(ssoResult.account);
 
             console.info(`[${appName}] ✅ Standalone SSO successful`);
@@ -663,7 +724,7 @@ export class MsalInitializer {
         msalInstance.getActiveAccount() === null
       ) {
         console.warn(
-          `[${appName}] Interaction already in progress (status: ${this.interactionStatus}), skipping loginRedirect()`,
+          `[${appName}] Interaction already in progress (status: ${this.interactionStatus}), skipping interactive login`,
         );
         return;
       }
@@ -684,18 +745,36 @@ export class MsalInitializer {
         );
       }
 
+      const strategy = this.config.interactionStrategy ?? "redirect";
       console.info(
-        `[${appName}] 🔐 Triggering interactive login redirect to Azure AD...`,
+        `[${appName}] 🔐 Triggering interactive login (${strategy}) with Azure AD...`,
       );
       console.info(`[${appName}] Redirect URI:`, getAuthConfig().redirectUri);
       console.info(`[${appName}] Scopes:`, getAuthConfig().scopes);
 
-      await msalInstance.loginRedirect({
-        scopes: getAuthConfig().scopes,
-        prompt: "select_account",
+      // Browsers usually block popups not opened from a click, so
+      // `popup-then-redirect` tends to end up redirecting here
+      const result = await loginInteractive({
+        msalInstance,
+        strategy,
+        request: {
+          scopes: getAuthConfig().scopes,
+          prompt: "select_account",
+        },
+        telemetry: {
+          ...this.getTelemetrySource(),
+          metadata: {
+            trigger: "initialize",
+            hadAccount: accounts.length > 0,
+          },
+        },
       });
 
-      console.info(`[${appName}] loginRedirect() called successfully`);
+      console.info(
+        result
+          ? `[${appName}] ✅ Popup login successful: ${result.account.username}`
+          : `[${appName}] Login redirect started`,
+      );
     } catch (error) {
       console.error(`[${appName}] ❌ Standalone initialization failed:`, error);
       const processed = AuthErrorHandler.process(
@@ -703,10 +782,44 @@ export class MsalInitializer {
         `${appName} initialization`,
       );
       AuthErrorHandler.show(processed);
+      emitAuthTelemetry({
+        ...this.getTelemetrySource(),
+        type: "error",
+        success: false,
+        error: toTelemetryError(error),
+        metadata: { operation: "initialize", mode: "remote" },
+      });
       throw error;
     }
   }
 
+  /**
+   * Drop the cached session when another app signed out while this one was
+   * closed or asleep. The logout marker stays until the next sign-in.
+   */
+  private async endSessionAfterMissedLogout(): Promise<void> {
+    const { msalInstance, appName } = this.config;
+    const marker = readLogoutMarker();
+
+    if (!marker || msalInstance.getAllAccounts().length === 0) return;
+
+    console.info(
+      `[${appName}] Signed out by ${marker.appName} at ${new Date(marker.signedOutAt).toISOString()}, clearing cached session`,
+    );
+    msalInstance.setActiveAccount(null);
+    await msalInstance.clearCache();
+  }
+
+  /**
+   * App name and client ID stamped on telemetry from this initializer
+   */
+  private getTelemetrySource(): AuthTelemetrySource {
+    return {
+      appName: this.config.appName,
+      clientId: this.config.getAuthConfig().clientId,
+    };
+  }
+
   /**
    * Update internal state and notify subscribers
    */
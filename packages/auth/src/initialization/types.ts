@@ -5,6 +5,7 @@
 
 import type { PublicClientApplication } from "@azure/msal-browser";
 import type { AuthConfig } from "../types/auth";
+import type { InteractionStrategy } from "../interaction/interactiveAuth";
 
 /**
  * Mode for authentication initialization
@@ -48,6 +49,12 @@ export interface InitConfig {
    * { publicRoutes: PUBLIC_ROUTES }
    */
   publicRoutes?: readonly string[];
+
+  /**
+   * How a standalone remote signs in when it has no session
+   * @default 'redirect'
+   */
+  interactionStrategy?: InteractionStrategy;
 }
 
 /**
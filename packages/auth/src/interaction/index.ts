@@ -0,0 +1,15 @@
+/**
+ * @module @one-portal/auth/interaction
+ * @description Interactive sign-in and token acquisition strategies
+ */
+
+export {
+  loginInteractive,
+  acquireTokenInteractive,
+  isPopupBlocked,
+} from './interactiveAuth';
+export type {
+  InteractionStrategy,
+  InteractiveRequest,
+  InteractiveAuthOptions,
+} from './interactiveAuth';
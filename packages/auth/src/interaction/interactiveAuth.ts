@@ -0,0 +1,147 @@
+/**
+ * @module @one-portal/auth/interaction
+ * @description Popup or redirect sign-in and token acquisition
+ */
+
+import {
+  BrowserAuthError,
+  BrowserAuthErrorCodes,
+  type AuthenticationResult,
+  type IPublicClientApplication,
+  type PopupRequest,
+  type RedirectRequest,
+} from "@azure/msal-browser";
+import { trackAuthOperation, type AuthTelemetrySource } from "../telemetry";
+import { getAndClearReturnUrl, setReturnUrl } from "../utils/storage";
+
+/**
+ * How interactive sign-in, consent and token requests reach Entra ID
+ *
+ * - `redirect`: navigate away and back. Unloads the page, including every
+ *   mounted remote.
+ * - `popup`: keep the page and hand back the result. Fails when the browser
+ *   blocks the popup.
+ * - `popup-then-redirect`: try a popup, and redirect only if it was blocked
+ */
+export type InteractionStrategy = "redirect" | "popup" | "popup-then-redirect";
+
+export type InteractiveRequest = PopupRequest & RedirectRequest;
+
+export interface InteractiveAuthOptions {
+  msalInstance: IPublicClientApplication;
+  strategy: InteractionStrategy;
+  request: InteractiveRequest;
+
+  /** Saved before a redirect so the app navigates back to it afterwards */
+  returnUrl?: string;
+
+  /** Source and extra metadata for the telemetry event */
+  telemetry?: Partial<AuthTelemetrySource> & {
+    metadata?: Record<string, unknown>;
+  };
+}
+
+/**
+ * The browser refused to open the popup (or it closed before loading)
+ */
+export function isPopupBlocked(error: unknown): boolean {
+  return (
+    error instanceof BrowserAuthError &&
+    (error.errorCode === BrowserAuthErrorCodes.popupWindowError ||
+      error.errorCode === BrowserAuthErrorCodes.emptyWindowError)
+  );
+}
+
+async function runInteraction(
+  type: "login" | "token-acquired",
+  options: InteractiveAuthOptions,
+  popup: () => Promise<AuthenticationResult>,
+  redirect: () => Promise<void>,
+): Promise<AuthenticationResult | null> {
+  const {
+    strategy,
+    returnUrl,
+    telemetry: { metadata, ...source } = {},
+  } = options;
+
+  const track = <T>(interaction: string, run: () => Promise<T>) =>
+    trackAuthOperation(type, run, {
+      ...source,
+      metadata: {
+        ...metadata,
+        interaction,
+        strategy,
+        // A redirect completes on the next page load
+        ...(interaction === "redirect" && { stage: "start" }),
+      },
+    });
+
+  if (strategy !== "redirect") {
+    try {
+      return await track("popup", popup);
+    } catch (error) {
+      if (strategy === "popup" || !isPopupBlocked(error)) {
+        throw error;
+      }
+      console.warn("[interactiveAuth] Popup blocked, falling back to redirect");
+    }
+  }
+
+  if (returnUrl) {
+    setReturnUrl(returnUrl);
+  }
+  await track("redirect", redirect);
+  return null;
+}
+
+/**
+ * Sign in interactively with the given strategy.
+ *
+ * A popup resolves to the result and makes its account active; the return
+ * URL saved for a redirect is dropped, since the page stays where it is. A
+ * redirect resolves to `null` while the page navigates away.
+ *
+ * @example
+ * ```typescript
+ * const result = await loginInteractive({
+ *   msalInstance,
+ *   strategy: 'popup-then-redirect',
+ *   request: { scopes: ['openid', 'profile', 'email'], prompt: 'select_account' },
+ * });
+ * ```
+ */
+export async function loginInteractive(
+  options: InteractiveAuthOptions,
+): Promise<AuthenticationResult | null> {
+  const { msalInstance, request } = options;
+
+  const result = await runInteraction(
+    "login",
+    options,
+    () => msalInstance.loginPopup(request),
+    () => msalInstance.loginRedirect(request),
+  );
+
+  if (result) {
+    msalInstance.setActiveAccount(result.account);
+    getAndClearReturnUrl();
+  }
+  return result;
+}
+
+/**
+ * Acquire a token interactively with the given strategy, e.g. for consent or
+ * a claims challenge. Resolves to `null` when the page redirects instead.
+ */
+export function acquireTokenInteractive(
+  options: InteractiveAuthOptions,
+): Promise<AuthenticationResult | null> {
+  const { msalInstance, request } = options;
+
+  return runInteraction(
+    "token-acquired",
+    options,
+    () => msalInstance.acquireTokenPopup(request),
+    () => msalInstance.acquireTokenRedirect(request),
+  );
+}
@@ -0,0 +1,16 @@
+import type { ReactNode } from 'react';
+import type { ShellHostApi } from '@one-portal/types';
+import { ShellHostContext } from '../contexts/ShellHostContext';
+
+export interface ShellHostProviderProps {
+  /** `context.shell` received in the remote's `mount(container, context)` */
+  host: ShellHostApi;
+  children: ReactNode;
+}
+
+/**
+ * Makes the shell host API available to `useShellHost()` in a remote's tree
+ */
+export function ShellHostProvider({ host, children }: ShellHostProviderProps) {
+  return <ShellHostContext.Provider value={host}>{children}</ShellHostContext.Provider>;
+}
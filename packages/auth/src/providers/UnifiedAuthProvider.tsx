@@ -1,8 +1,12 @@
-import { useEffect, useState, useRef, type ReactNode } from "react";
+import { useEffect, useMemo, useState, useRef, type ReactNode } from "react";
 import { MsalProvider } from "@azure/msal-react";
-import type { EventMessage } from "@azure/msal-browser";
-import { EventType as MsalEventType } from "@azure/msal-browser";
+import type { AuthenticationResult, EventMessage } from "@azure/msal-browser";
+import {
+  EventType as MsalEventType,
+  InteractionType,
+} from "@azure/msal-browser";
 import { AuthLoadingSpinner } from "@one-portal/ui";
+import { getWindowId } from "@one-portal/types";
 import {
   publishAuthEvent,
   subscribeToAuthEvents,
@@ -10,10 +14,32 @@ import {
 } from "../events";
 import { AuthErrorHandler } from "../errors";
 import { MsalInitializer } from "../initialization";
+import { TokenManager } from "../tokens";
+import { TokenManagerContext } from "../contexts/TokenManagerContext";
+import { ConsentManager, type ScopeGroups } from "../consent";
+import { ConsentManagerContext } from "../contexts/ConsentManagerContext";
+import { InteractionStrategyContext } from "../contexts/InteractionStrategyContext";
+import {
+  IdleSessionManager,
+  clearLogoutMarker,
+  readLogoutMarker,
+  registerSignOutReceiver,
+  signOutEverywhere,
+} from "../session";
+import { IdleWarningDialog } from "../components/IdleWarningDialog";
+import {
+  configureAuthTelemetry,
+  emitAuthTelemetry,
+  onAuthTelemetry,
+  toTelemetryError,
+  trackAuthOperation,
+} from "../telemetry";
 import { isEmbeddedMode } from "../utils/environment";
-import { safeRedirect, clearAuthStorage } from "../utils";
+import { safeRedirect, clearAuthStorage, getLoginHint } from "../utils";
 import type { UnifiedAuthProviderProps, RouteType } from "./types";
 
+const NO_SCOPE_GROUPS: ScopeGroups = {};
+
 /**
  * Unified authentication provider for One Portal
  *
@@ -26,6 +52,12 @@ import type { UnifiedAuthProviderProps, RouteType } from "./types";
  * - ✅ **Visibility-aware**: Prevents redirects when route is preloaded
  * - ✅ **Event-driven**: Publishes/subscribes to cross-app auth events
  * - ✅ **Type-safe**: Uses strict event typing with discriminated unions
+ * - ✅ **Observable**: Reports auth telemetry to `onTelemetry` and the event bus
+ * - ✅ **Proactive refresh**: Renews tokens before they expire (`TokenManager`)
+ * - ✅ **Incremental consent**: Per-feature scope groups (`useScopes`)
+ * - ✅ **Popup or redirect**: Configurable `interactionStrategy`
+ * - ✅ **Idle timeout**: Cross-tab inactivity sign-out with a warning (`idleSession`)
+ * - ✅ **Single sign-out**: Durable logout marker and acknowledged `auth:signed-out`
  *
  * @example Host mode (Shell app)
  * ```tsx
@@ -61,9 +93,17 @@ export function UnifiedAuthProvider({
   getAuthConfig,
   debug = false,
   publicRoutes,
+  onTelemetry,
+  onAccountChange,
+  tokenRefreshBufferMinutes,
+  scopeGroups = NO_SCOPE_GROUPS,
+  interactionStrategy,
+  idleSession,
 }: UnifiedAuthProviderProps): ReactNode {
   const [isInitialized, setIsInitialized] = useState(false);
   const initializerRef = useRef<MsalInitializer | null>(null);
+  const onTelemetryRef = useRef(onTelemetry);
+  const onAccountChangeRef = useRef(onAccountChange);
 
   // Determine app name
   const effectiveAppName = appName ?? (mode === "host" ? "shell" : "remote");
@@ -72,6 +112,131 @@ export function UnifiedAuthProvider({
   const detectedRouteType: RouteType =
     routeType ?? detectRouteType?.() ?? defaultDetectRouteType();
 
+  useEffect(() => {
+    onTelemetryRef.current = onTelemetry;
+    onAccountChangeRef.current = onAccountChange;
+  });
+
+  // Telemetry wiring (before initialization, which already emits events)
+  useEffect(() => {
+    configureAuthTelemetry({
+      appName: effectiveAppName,
+      clientId: getAuthConfig().clientId,
+    });
+
+    const unsubscribeLocal = onAuthTelemetry((event) =>
+      onTelemetryRef.current?.(event),
+    );
+    if (mode !== "host") return unsubscribeLocal;
+
+    // Remotes bundle their own copy of this package; their events reach the
+    // host over the bus. Other tabs report to their own host.
+    const unsubscribeRemotes = subscribeToAuthEvents(
+      (event) => {
+        const { payload } = event as AuthEvent<"auth:telemetry">;
+        if (payload.windowId === getWindowId()) {
+          onTelemetryRef.current?.({
+            ...payload.event,
+            timestamp: new Date(event.timestamp),
+          });
+        }
+      },
+      ["auth:telemetry"],
+    );
+
+    return () => {
+      unsubscribeLocal();
+      unsubscribeRemotes();
+    };
+  }, [mode, effectiveAppName, getAuthConfig]);
+
+  const tokenManager = useMemo(
+    () =>
+      new TokenManager({
+        msalInstance,
+        appName: effectiveAppName,
+        bufferMinutes: tokenRefreshBufferMinutes,
+        debug,
+      }),
+    [msalInstance, effectiveAppName, tokenRefreshBufferMinutes, debug],
+  );
+
+  useEffect(() => {
+    tokenManager.start();
+    return () => tokenManager.stop();
+  }, [tokenManager]);
+
+  const consentManager = useMemo(
+    () =>
+      new ConsentManager({
+        msalInstance,
+        tokenManager,
+        scopeGroups,
+        interactionStrategy,
+        appName: effectiveAppName,
+      }),
+    [
+      msalInstance,
+      tokenManager,
+      scopeGroups,
+      interactionStrategy,
+      effectiveAppName,
+    ],
+  );
+
+  useEffect(() => {
+    consentManager.start();
+    return () => consentManager.stop();
+  }, [consentManager]);
+
+  const idleSessionEnabled = idleSession !== undefined;
+  const { idleMinutes, warningMinutes, postLogoutRedirectUri } =
+    idleSession ?? {};
+
+  const idleSessionManager = useMemo(() => {
+    // The Shell's document includes embedded remotes, so it tracks them
+    if (!idleSessionEnabled || (mode === "remote" && isEmbeddedMode())) {
+      return null;
+    }
+
+    return new IdleSessionManager({
+      appName: effectiveAppName,
+      clientId: getAuthConfig().clientId,
+      idleMinutes,
+      warningMinutes,
+      debug,
+      isSignedIn: () => msalInstance.getAllAccounts().length > 0,
+      onTimeout: () =>
+        trackAuthOperation(
+          "logout",
+          () =>
+            msalInstance.logoutRedirect({
+              account: msalInstance.getActiveAccount() ?? undefined,
+              postLogoutRedirectUri:
+                postLogoutRedirectUri ?? window.location.origin,
+            }),
+          { metadata: { interaction: "redirect", trigger: "idle-timeout" } },
+        ),
+    });
+  }, [
+    idleSessionEnabled,
+    idleMinutes,
+    warningMinutes,
+    postLogoutRedirectUri,
+    mode,
+    msalInstance,
+    effectiveAppName,
+    getAuthConfig,
+    debug,
+  ]);
+
+  useEffect(() => {
+    if (!idleSessionManager) return;
+
+    idleSessionManager.start();
+    return () => idleSessionManager.stop();
+  }, [idleSessionManager]);
+
   // Initialize MSAL using MsalInitializer
   useEffect(() => {
     // Create initializer if needed
@@ -83,6 +248,7 @@ export function UnifiedAuthProvider({
         debug,
         detectRouteType,
         publicRoutes,
+        interactionStrategy,
       });
 
       // Subscribe to initialization state changes
@@ -115,15 +281,24 @@ export function UnifiedAuthProvider({
     if (mode !== "remote") return;
 
     const unsubscribe = subscribeToAuthEvents(async (event) => {
-      if (event.type === "auth:signed-in") {
-        const signInEvent = event as AuthEvent<"auth:signed-in">;
-        const loginHint = signInEvent.payload.loginHint;
+      // A sign-in or an account switch in the Shell: follow its account
+      if (
+        event.type === "auth:signed-in" ||
+        event.type === "auth:account-changed"
+      ) {
+        const accountEvent = event as AuthEvent<
+          "auth:signed-in" | "auth:account-changed"
+        >;
+        const loginHint = accountEvent.payload.loginHint;
 
         if (debug)
           console.info(
-            `[${effectiveAppName}] Received auth:signed-in event, attempting SSO`,
+            `[${effectiveAppName}] Received ${event.type} event, attempting SSO`,
           );
 
+        const startedAt = performance.now();
+        const embedded = isEmbeddedMode({ mode: getAuthConfig().mode });
+
         try {
           const ssoResult = await msalInstance.ssoSilent({
             scopes: getAuthConfig().scopes,
@@ -131,11 +306,33 @@ export function UnifiedAuthProvider({
           });
           msalInstance.setActiveAccount(ssoResult.account);
 
+          emitAuthTelemetry({
+            type: "silent-sso",
+            success: true,
+            durationMs: performance.now() - startedAt,
+            metadata: { trigger: event.type, embedded },
+          });
+
           if (debug) console.info(`[${effectiveAppName}] SSO successful`);
         } catch (error: unknown) {
-          if (AuthErrorHandler.isInteractionRequired(error)) {
-            const embedded = isEmbeddedMode({ mode: getAuthConfig().mode });
+          const interactionRequired =
+            AuthErrorHandler.isInteractionRequired(error);
+
+          // `fallback` records what happened next, e.g. a redirect to the Shell
+          emitAuthTelemetry({
+            type: "silent-sso",
+            success: false,
+            durationMs: performance.now() - startedAt,
+            error: toTelemetryError(error),
+            metadata: {
+              trigger: event.type,
+              embedded,
+              interactionRequired,
+              fallback: interactionRequired && embedded ? "redirect" : "none",
+            },
+          });
 
+          if (interactionRequired) {
             if (embedded) {
               if (debug)
                 console.info(
@@ -156,28 +353,87 @@ export function UnifiedAuthProvider({
             AuthErrorHandler.show(processed);
           }
         }
-      } else if (event.type === "auth:signed-out") {
+      }
+    });
+
+    return unsubscribe;
+  }, [mode, msalInstance, getAuthConfig, effectiveAppName, debug]);
+
+  // Sign-out from another app or tab, by event or by logout marker (every mode)
+  useEffect(() => {
+    return registerSignOutReceiver({
+      appName: effectiveAppName,
+      isSignedIn: () => msalInstance.getAllAccounts().length > 0,
+      onSignOut: async () => {
+        if (msalInstance.getAllAccounts().length === 0) return;
+
         if (debug)
           console.info(
-            `[${effectiveAppName}] Received auth:signed-out event, clearing cache`,
+            `[${effectiveAppName}] Signed out elsewhere, clearing cache`,
           );
 
         msalInstance.setActiveAccount(null);
+        await msalInstance.clearCache();
         clearAuthStorage();
-      }
-    });
 
-    return unsubscribe;
-  }, [mode, msalInstance, getAuthConfig, effectiveAppName, debug]);
+        // Embedded remotes leave navigation to the Shell
+        if (mode === "host" || !isEmbeddedMode()) {
+          safeRedirect("/sign-in?signed-out=true", "/");
+        }
+      },
+    });
+  }, [mode, msalInstance, effectiveAppName, debug]);
 
-  // MSAL event callbacks (logout handling)
+  // MSAL event callbacks (popup sign-in, logout handling, account switching)
   useEffect(() => {
+    let activeAccountId = msalInstance.getActiveAccount()?.homeAccountId;
+
     const callbackId = msalInstance.addEventCallback((event: EventMessage) => {
-      if (event.eventType === MsalEventType.LOGOUT_SUCCESS) {
+      if (
+        event.eventType === MsalEventType.LOGIN_SUCCESS &&
+        event.interactionType === InteractionType.Popup
+      ) {
+        // Redirect sign-ins are announced by MsalInitializer on the way back;
+        // popups never leave the page. Adding an account is an account change.
+        const { account } = event.payload as AuthenticationResult;
+        clearLogoutMarker();
+        if (!activeAccountId) {
+          publishAuthEvent("auth:signed-in", {
+            loginHint: getLoginHint(account),
+            accountId: account.homeAccountId,
+            appName: effectiveAppName,
+            clientId: getAuthConfig().clientId,
+          });
+        }
+      } else if (event.eventType === MsalEventType.ACTIVE_ACCOUNT_CHANGED) {
+        const account = msalInstance.getActiveAccount();
+        const previousId = activeAccountId;
+        activeAccountId = account?.homeAccountId;
+
+        // Signing in (no previous account) and out are covered by their own events
+        if (account && previousId && previousId !== account.homeAccountId) {
+          if (debug)
+            console.info(
+              `[${effectiveAppName}] Active account changed:`,
+              account.username,
+            );
+
+          onAccountChangeRef.current?.(account);
+
+          if (mode === "host") {
+            publishAuthEvent("auth:account-changed", {
+              loginHint: getLoginHint(account),
+              accountId: account.homeAccountId,
+              appName: effectiveAppName,
+            });
+          }
+        }
+      } else if (event.eventType === MsalEventType.LOGOUT_SUCCESS) {
         if (debug) console.info(`[${effectiveAppName}] Logout success`);
 
-        if (mode === "host") {
-          publishAuthEvent("auth:signed-out", {
+        // Sign-outs through signOutEverywhere() have announced themselves
+        if (mode === "host" && !readLogoutMarker()) {
+          void signOutEverywhere({
             appName: effectiveAppName,
             clientId: getAuthConfig().clientId,
           });
@@ -202,7 +458,22 @@ export function UnifiedAuthProvider({
     );
   }
 
-  return <MsalProvider instance={msalInstance}>{children}</MsalProvider>;
+  return (
+    <MsalProvider instance={msalInstance}>
+      <TokenManagerContext.Provider value={tokenManager}>
+        <ConsentManagerContext.Provider value={consentManager}>
+          <InteractionStrategyContext.Provider
+            value={interactionStrategy ?? "redirect"}
+          >
+            {children}
+            {idleSessionManager && (
+              <IdleWarningDialog manager={idleSessionManager} />
+            )}
+          </InteractionStrategyContext.Provider>
+        </ConsentManagerContext.Provider>
+      </TokenManagerContext.Provider>
+    </MsalProvider>
+  );
 }
 
 /**
@@ -1,4 +1,5 @@
 export { UnifiedAuthProvider } from './UnifiedAuthProvider';
+export { ShellHostProvider, type ShellHostProviderProps } from './ShellHostProvider';
 export type {
     UnifiedAuthProviderProps,
     AuthProviderMode,
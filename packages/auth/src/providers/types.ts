@@ -1,6 +1,9 @@
 import type { ReactNode } from "react";
-import type { PublicClientApplication } from "@azure/msal-browser";
-import type { AuthConfig } from "../types/auth";
+import type { AccountInfo, PublicClientApplication } from "@azure/msal-browser";
+import type { AuthConfig, AuthTelemetryEvent } from "../types/auth";
+import type { ScopeGroups } from "../consent/ConsentManager";
+import type { InteractionStrategy } from "../interaction/interactiveAuth";
+import type { IdleSessionConfig } from "../session/IdleSessionManager";
 
 /**
  * Provider mode determines authentication behavior
@@ -84,4 +87,70 @@ export interface UnifiedAuthProviderProps {
    * <UnifiedAuthProvider publicRoutes={PUBLIC_ROUTES} />
    */
   publicRoutes?: readonly string[];
+
+  /**
+   * Receives auth telemetry: login, logout, silent SSO, token acquisition
+   * and refresh, and errors, with durations and success flags
+   *
+   * In host mode this also receives events from remotes mounted in the same
+   * window, so `appName` tells which app emitted them. Every event is also
+   * published as `auth:telemetry` on the auth event bus.
+   *
+   * @example
+   * <UnifiedAuthProvider onTelemetry={(event) => sink.emit(event)} />
+   */
+  onTelemetry?: (event: AuthTelemetryEvent) => void;
+
+  /**
+   * Called when the active account changes from one account to another: an
+   * account switch in the Shell, or a remote following it. Signing in and out
+   * don't count. Drop data cached for the previous account here, so the new
+   * account never sees it.
+   *
+   * @example
+   * <UnifiedAuthProvider onAccountChange={() => queryClient.clear()} />
+   */
+  onAccountChange?: (account: AccountInfo) => void;
+
+  /**
+   * Refresh tracked access tokens this many minutes before they expire
+   * (see `TokenManager`)
+   *
+   * @default 5
+   */
+  tokenRefreshBufferMinutes?: number;
+
+  /**
+   * Named scope groups that features request consent for with `useScopes()`.
+   * Define the object outside the component; a new object resets the cache.
+   *
+   * @example
+   * const SCOPE_GROUPS = {
+   *   'graph:directory': ['User.Read.All'],
+   *   'api:billing.write': ['api://billing/Billing.Write'],
+   * };
+   * <UnifiedAuthProvider scopeGroups={SCOPE_GROUPS} />
+   */
+  scopeGroups?: ScopeGroups;
+
+  /**
+   * How interactive sign-in (`useAuth().login`, standalone remote startup),
+   * consent and `acquireTokenInteractive` reach the user. A popup keeps the
+   * page, and every mounted remote, in place.
+   *
+   * Consent uses a popup when this is not set.
+   *
+   * @default 'redirect'
+   */
+  interactionStrategy?: InteractionStrategy;
+
+  /**
+   * Sign the user out after a period of inactivity in every tab, with a
+   * warning dialog beforehand. Off when not set. Remotes embedded in the
+   * Shell rely on the Shell's timeout.
+   *
+   * @example
+   * <UnifiedAuthProvider idleSession={{ idleMinutes: 15, warningMinutes: 2 }} />
+   */
+  idleSession?: IdleSessionConfig;
 }
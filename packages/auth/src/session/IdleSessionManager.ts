@@ -0,0 +1,301 @@
+/**
+ * @module @one-portal/auth/session
+ * @description Signs the user out after a period of inactivity across tabs
+ */
+
+import {
+  publishAuthEvent,
+  subscribeToAuthEvents,
+  type AuthEvent,
+  type UnsubscribeFn,
+} from "../events";
+import { signOutEverywhere } from "./singleSignOut";
+
+export interface IdleSessionConfig {
+  /**
+   * Minutes without activity in any tab before the user is signed out
+   * @default 30
+   */
+  idleMinutes?: number;
+
+  /**
+   * Minutes before sign-out that the warning dialog opens
+   * @default 2
+   */
+  warningMinutes?: number;
+
+  /** Where the user lands after an idle sign-out (defaults to the origin) */
+  postLogoutRedirectUri?: string;
+}
+
+/**
+ * - `active`: the user was active recently
+ * - `warning`: sign-out is due at `signOutAt` unless the user stays signed in
+ * - `timed-out`: the user was signed out for inactivity
+ */
+export type IdleSessionStatus = "active" | "warning" | "timed-out";
+
+export interface IdleSessionState {
+  status: IdleSessionStatus;
+
+  /** When the user will be signed out (ms since epoch) */
+  signOutAt: number;
+}
+
+export interface IdleSessionManagerConfig extends IdleSessionConfig {
+  /** Application name for logging and event publishing */
+  appName: string;
+
+  /** Client ID carried by the `auth:signed-out` event */
+  clientId: string;
+
+  /** Idle time only counts while someone is signed in */
+  isSignedIn: () => boolean;
+
+  /** Sign out after the other apps acknowledged `auth:signed-out` */
+  onTimeout: () => void | Promise<void>;
+
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+/** Window event for activity this document cannot observe itself */
+const REPORTED_ACTIVITY_EVENT = "oneportal:user-activity";
+
+const ACTIVITY_EVENTS = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "wheel",
+  "scroll",
+  "touchstart",
+  REPORTED_ACTIVITY_EVENT,
+] as const;
+
+/** Local activity is shared with other tabs at most this often */
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Count activity this document cannot observe, such as interaction inside an
+ * iframe remote, against the idle timeout of this tab
+ */
+export function reportUserActivity(): void {
+  window.dispatchEvent(new Event(REPORTED_ACTIVITY_EVENT));
+}
+
+/**
+ * Signs the user out after `idleMinutes` without activity in any tab, with a
+ * warning `warningMinutes` beforehand.
+ *
+ * - Listens for pointer, keyboard and scroll activity in this document, which
+ *   includes every Module Federation remote mounted in the Shell. Iframe
+ *   remotes are separate documents; the Shell passes their `activity` bridge
+ *   messages on with `reportUserActivity()`.
+ * - Shares activity with other tabs as `auth:activity`, so a user working in
+ *   one tab isn't signed out of another
+ * - Warning state is left by `staySignedIn()` or activity in another tab, not
+ *   by moving the mouse over the dialog
+ * - On timeout announces the sign-out with `signOutEverywhere()`, then calls
+ *   `onTimeout`. Other tabs restart their idle period when they receive it.
+ *
+ * `UnifiedAuthProvider` creates one from its `idleSession` prop, together
+ * with `IdleWarningDialog`.
+ *
+ * @example
+ * ```typescript
+ * const idle = new IdleSessionManager({
+ *   appName: 'shell',
+ *   clientId,
+ *   idleMinutes: 15,
+ *   isSignedIn: () => msalInstance.getAllAccounts().length > 0,
+ *   onTimeout: () => msalInstance.logoutRedirect(),
+ * });
+ * idle.start();
+ * ```
+ */
+export class IdleSessionManager {
+  private config: IdleSessionManagerConfig;
+  private idleMs: number;
+  private warningMs: number;
+  private lastActivityAt: number;
+  private lastBroadcastAt: number;
+  private state: IdleSessionState;
+  private listeners: Set<() => void>;
+  private timeoutId: ReturnType<typeof setTimeout> | undefined;
+  private unsubscribeBus: UnsubscribeFn | null;
+
+  constructor(config: IdleSessionManagerConfig) {
+    this.config = config;
+    this.idleMs = (config.idleMinutes ?? 30) * 60 * 1000;
+    this.warningMs = Math.min(
+      (config.warningMinutes ?? 2) * 60 * 1000,
+      this.idleMs,
+    );
+    this.lastActivityAt = Date.now();
+    this.lastBroadcastAt = 0;
+    this.state = {
+      status: "active",
+      signOutAt: this.lastActivityAt + this.idleMs,
+    };
+    this.listeners = new Set();
+    this.timeoutId = undefined;
+    this.unsubscribeBus = null;
+  }
+
+  /**
+   * Start tracking activity. The idle period starts now.
+   */
+  public start(): void {
+    if (this.unsubscribeBus) return;
+
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, this.handleActivity, {
+        capture: true,
+        passive: true,
+      }),
+    );
+    document.addEventListener("visibilitychange", this.tick);
+    this.unsubscribeBus = subscribeToAuthEvents(this.handleAuthEvent, [
+      "auth:activity",
+      "auth:signed-out",
+    ]);
+
+    this.recordActivity(Date.now(), true);
+  }
+
+  public stop(): void {
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.removeEventListener(type, this.handleActivity, { capture: true }),
+    );
+    document.removeEventListener("visibilitychange", this.tick);
+    this.unsubscribeBus?.();
+    this.unsubscribeBus = null;
+    clearTimeout(this.timeoutId);
+  }
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current state. The same object is returned until it changes.
+   */
+  public getState = (): IdleSessionState => this.state;
+
+  /**
+   * Restart the idle period in every tab, e.g. from the warning dialog
+   */
+  public staySignedIn(): void {
+    if (this.state.status === "timed-out") return;
+    this.recordActivity(Date.now(), true);
+  }
+
+  /**
+   * Sign out now instead of waiting for the timeout
+   */
+  public signOut(): Promise<void> {
+    return this.timeOut();
+  }
+
+  private recordActivity(at: number, broadcast: boolean): void {
+    this.lastActivityAt = Math.max(this.lastActivityAt, at);
+
+    if (broadcast) {
+      this.lastBroadcastAt = this.lastActivityAt;
+      publishAuthEvent("auth:activity", {
+        lastActivityAt: this.lastActivityAt,
+        appName: this.config.appName,
+      });
+    }
+
+    this.tick();
+  }
+
+  /**
+   * Move to the state due at this moment and schedule the next transition.
+   * Timers are throttled in hidden tabs, so this also runs when a tab is
+   * shown again.
+   */
+  private tick = (): void => {
+    if (!this.unsubscribeBus || this.state.status === "timed-out") return;
+    clearTimeout(this.timeoutId);
+
+    const now = Date.now();
+    if (!this.config.isSignedIn()) {
+      this.lastActivityAt = now;
+    }
+
+    const signOutAt = this.lastActivityAt + this.idleMs;
+    const warningAt = signOutAt - this.warningMs;
+
+    if (now >= signOutAt) {
+      void this.timeOut();
+      return;
+    }
+
+    this.setState({
+      status: now >= warningAt ? "warning" : "active",
+      signOutAt,
+    });
+    this.timeoutId = setTimeout(
+      this.tick,
+      (now >= warningAt ? signOutAt : warningAt) - now,
+    );
+  };
+
+  private async timeOut(): Promise<void> {
+    const { appName, clientId, debug } = this.config;
+    if (this.state.status === "timed-out") return;
+
+    this.stop();
+    this.setState({ status: "timed-out", signOutAt: Date.now() });
+
+    if (debug) {
+      console.info(`[${appName}] Idle timeout, signing out`);
+    }
+
+    try {
+      await signOutEverywhere({ appName, clientId });
+      await this.config.onTimeout();
+    } catch (error) {
+      console.error(`[${appName}] Idle sign-out failed:`, error);
+    }
+  }
+
+  private setState(next: IdleSessionState): void {
+    if (
+      next.status === this.state.status &&
+      next.signOutAt === this.state.signOutAt
+    ) {
+      return;
+    }
+    this.state = next;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private handleActivity = (): void => {
+    // Only an explicit choice (or another tab) ends the warning
+    if (this.state.status !== "active") return;
+
+    const now = Date.now();
+    this.lastActivityAt = now;
+
+    if (now - this.lastBroadcastAt >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+      this.recordActivity(now, true);
+    }
+  };
+
+  private handleAuthEvent = (event: AuthEvent): void => {
+    if (event.type === "auth:activity") {
+      const { payload } = event as AuthEvent<"auth:activity">;
+      this.recordActivity(payload.lastActivityAt, false);
+    } else {
+      // Signed out elsewhere, which takes care of this tab too. Start over
+      // rather than time out a second time.
+      this.recordActivity(Date.now(), false);
+    }
+  };
+}
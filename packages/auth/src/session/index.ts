@@ -0,0 +1,24 @@
+/**
+ * @module @one-portal/auth/session
+ * @description Idle session timeout
+ */
+
+export { IdleSessionManager, reportUserActivity } from './IdleSessionManager';
+export type {
+  IdleSessionConfig,
+  IdleSessionStatus,
+  IdleSessionState,
+  IdleSessionManagerConfig,
+} from './IdleSessionManager';
+export {
+  signOutEverywhere,
+  registerSignOutReceiver,
+  readLogoutMarker,
+  clearLogoutMarker,
+} from './singleSignOut';
+export type {
+  LogoutMarker,
+  SignOutEverywhereOptions,
+  SignOutResult,
+  SignOutReceiverOptions,
+} from './singleSignOut';
@@ -0,0 +1,235 @@
+/**
+ * @module @one-portal/auth/session
+ * @description Sign-out that reaches every app and tab, including ones that
+ * were not listening when it happened
+ */
+
+import { STORAGE_KEYS, getWindowId } from "@one-portal/types";
+import {
+  publishAuthEvent,
+  subscribeToAuthEvents,
+  type AuthEvent,
+} from "../events";
+
+/**
+ * Durable record of the last sign-out, removed by the next sign-in
+ */
+export interface LogoutMarker {
+  logoutId: string;
+
+  /** ms since epoch */
+  signedOutAt: number;
+
+  /** App that signed out */
+  appName: string;
+}
+
+export interface SignOutEverywhereOptions {
+  appName: string;
+  clientId: string;
+
+  /**
+   * Longest wait for apps in this window to acknowledge
+   * @default 2000
+   */
+  timeoutMs?: number;
+}
+
+export interface SignOutResult {
+  logoutId: string;
+
+  /** Apps that acknowledged, in this window or another tab */
+  acknowledgedBy: string[];
+
+  /** Apps in this window that did not acknowledge in time */
+  missing: string[];
+}
+
+declare global {
+  interface Window {
+    __ONE_PORTAL_SIGN_OUT_RECEIVERS__?: Set<string>;
+  }
+}
+
+const DEFAULT_ACK_TIMEOUT_MS = 2_000;
+
+/** Sign-outs this app has already handled (or started) */
+const handledLogoutIds = new Set<string>();
+
+/**
+ * Apps in this window that handle `auth:signed-out`. Lives on `window`
+ * because the Shell and each remote bundle their own copy of this module.
+ */
+function getReceivers(): Set<string> {
+  window.__ONE_PORTAL_SIGN_OUT_RECEIVERS__ ??= new Set();
+  return window.__ONE_PORTAL_SIGN_OUT_RECEIVERS__;
+}
+
+export function readLogoutMarker(): LogoutMarker | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.AUTH_LOGOUT);
+    return raw ? (JSON.parse(raw) as LogoutMarker) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget the last sign-out. Called when a user signs in again.
+ */
+export function clearLogoutMarker(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.AUTH_LOGOUT);
+  } catch (error) {
+    console.error("[SingleSignOut] Failed to clear logout marker:", error);
+  }
+}
+
+/**
+ * Whether this app has handled the sign-out already. Marks it handled.
+ */
+function claimLogout(logoutId: string): boolean {
+  if (handledLogoutIds.has(logoutId)) return false;
+  handledLogoutIds.add(logoutId);
+  return true;
+}
+
+/**
+ * Record a sign-out, announce it as `auth:signed-out` and wait until every
+ * app in this window has acknowledged it, or `timeoutMs` has passed.
+ * Call it before `logoutRedirect`, which unloads those apps.
+ *
+ * Apps in other tabs get the event too, and apps that miss it (asleep, not
+ * mounted yet) find the marker on focus or when they initialize.
+ *
+ * @example
+ * ```typescript
+ * await signOutEverywhere({ appName: 'shell', clientId });
+ * await logout('/sign-in?signed-out=true');
+ * ```
+ */
+export function signOutEverywhere(
+  options: SignOutEverywhereOptions,
+): Promise<SignOutResult> {
+  const { appName, clientId, timeoutMs = DEFAULT_ACK_TIMEOUT_MS } = options;
+  const logoutId = crypto.randomUUID();
+  const marker: LogoutMarker = { logoutId, signedOutAt: Date.now(), appName };
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.AUTH_LOGOUT, JSON.stringify(marker));
+  } catch (error) {
+    console.error("[SingleSignOut] Failed to write logout marker:", error);
+  }
+  claimLogout(logoutId);
+
+  // This app doesn't receive its own events
+  const pending = new Set([...getReceivers()].filter((app) => app !== appName));
+  const acknowledgedBy: string[] = [];
+
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timeoutId);
+      unsubscribe();
+      resolve({ logoutId, acknowledgedBy, missing: [...pending] });
+    };
+
+    const unsubscribe = subscribeToAuthEvents(
+      (event) => {
+        const { payload } = event as AuthEvent<"auth:signed-out-ack">;
+        if (payload.logoutId !== logoutId) return;
+
+        acknowledgedBy.push(payload.appName);
+        if (payload.windowId === getWindowId()) {
+          pending.delete(payload.appName);
+        }
+        if (pending.size === 0) finish();
+      },
+      ["auth:signed-out-ack"],
+    );
+
+    const timeoutId = setTimeout(() => {
+      if (pending.size > 0) {
+        console.warn(
+          `[SingleSignOut] No acknowledgement from: ${[...pending].join(", ")}`,
+        );
+      }
+      finish();
+    }, timeoutMs);
+
+    publishAuthEvent("auth:signed-out", { appName, clientId, logoutId });
+
+    if (pending.size === 0) finish();
+  });
+}
+
+export interface SignOutReceiverOptions {
+  appName: string;
+
+  /** Drop this app's session. Runs once per sign-out. */
+  onSignOut: (logoutId: string) => void | Promise<void>;
+
+  /** Whether this app still holds a session the marker should end */
+  isSignedIn: () => boolean;
+}
+
+/**
+ * Handle sign-outs from other apps and tabs: on `auth:signed-out` (then
+ * acknowledge it), and on focus or when the tab becomes visible if a logout
+ * marker is present while this app still holds a session.
+ *
+ * @returns Stop handling
+ */
+export function registerSignOutReceiver(
+  options: SignOutReceiverOptions,
+): () => void {
+  const { appName, onSignOut, isSignedIn } = options;
+
+  const handle = async (logoutId: string) => {
+    if (!claimLogout(logoutId)) return;
+
+    try {
+      await onSignOut(logoutId);
+    } catch (error) {
+      console.error(`[${appName}] Sign-out failed:`, error);
+    }
+  };
+
+  const unsubscribe = subscribeToAuthEvents(
+    async (event) => {
+      const { payload } = event as AuthEvent<"auth:signed-out">;
+      // Events without an ID come from a plain logout
+      const logoutId = payload.logoutId ?? crypto.randomUUID();
+
+      await handle(logoutId);
+
+      if (payload.logoutId) {
+        publishAuthEvent("auth:signed-out-ack", {
+          logoutId,
+          appName,
+          windowId: getWindowId(),
+        });
+      }
+    },
+    ["auth:signed-out"],
+  );
+
+  const checkMarker = () => {
+    if (document.visibilityState === "hidden") return;
+
+    const marker = readLogoutMarker();
+    if (marker && isSignedIn()) {
+      void handle(marker.logoutId);
+    }
+  };
+
+  getReceivers().add(appName);
+  window.addEventListener("focus", checkMarker);
+  document.addEventListener("visibilitychange", checkMarker);
+
+  return () => {
+    getReceivers().delete(appName);
+    window.removeEventListener("focus", checkMarker);
+    document.removeEventListener("visibilitychange", checkMarker);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,111 @@
+import { getWindowId } from '@one-portal/types';
+import { AuthErrorHandler } from '../errors';
+import { publishAuthEvent } from '../events';
+import type { AuthTelemetryEvent } from '../types/auth';
+
+export type AuthTelemetryListener = (event: AuthTelemetryEvent) => void;
+
+/**
+ * Event fields supplied by the caller. `appName` and `clientId` default to
+ * the values passed to `configureAuthTelemetry`.
+ */
+export type AuthTelemetryInput = Omit<AuthTelemetryEvent, 'timestamp' | 'appName' | 'clientId'> &
+  Partial<Pick<AuthTelemetryEvent, 'appName' | 'clientId'>>;
+
+export interface AuthTelemetrySource {
+  appName: string;
+  clientId: string;
+}
+
+const listeners = new Set<AuthTelemetryListener>();
+
+let source: AuthTelemetrySource = { appName: 'unknown', clientId: '' };
+
+/**
+ * Set the app name and client ID stamped on events that don't carry their own.
+ * `UnifiedAuthProvider` calls this on mount.
+ */
+export function configureAuthTelemetry(next: AuthTelemetrySource): void {
+  source = next;
+}
+
+/**
+ * Listen to auth telemetry emitted by this app. Events from other apps arrive
+ * as `auth:telemetry` on the auth event bus.
+ */
+export function onAuthTelemetry(listener: AuthTelemetryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Deliver an event to local listeners and publish it as `auth:telemetry`
+ */
+export function emitAuthTelemetry(input: AuthTelemetryInput): void {
+  const event: Omit<AuthTelemetryEvent, 'timestamp'> = {
+    ...input,
+    appName: input.appName ?? source.appName,
+    clientId: input.clientId ?? source.clientId,
+    durationMs: input.durationMs === undefined ? undefined : Math.round(input.durationMs),
+  };
+  const timestamp = Date.now();
+
+  listeners.forEach((listener) => {
+    try {
+      listener({ ...event, timestamp: new Date(timestamp) });
+    } catch (error) {
+      console.warn('[AuthTelemetry] Listener failed:', error);
+    }
+  });
+
+  publishAuthEvent('auth:telemetry', { event, windowId: getWindowId() });
+}
+
+/**
+ * Code and message of any thrown value, as carried by telemetry events
+ */
+export function toTelemetryError(error: unknown): AuthTelemetryEvent['error'] {
+  const { code, message } = AuthErrorHandler.process(error);
+  return { code, message };
+}
+
+/**
+ * Run an auth operation and emit one event with its duration, whether it
+ * succeeds or throws
+ *
+ * @example
+ * ```typescript
+ * const result = await trackAuthOperation('silent-sso', () =>
+ *   msalInstance.ssoSilent({ scopes, loginHint })
+ * );
+ * ```
+ */
+export async function trackAuthOperation<T>(
+  type: AuthTelemetryEvent['type'],
+  run: () => Promise<T>,
+  details: Omit<AuthTelemetryInput, 'type' | 'success' | 'durationMs' | 'error'> = {}
+): Promise<T> {
+  const startedAt = performance.now();
+
+  try {
+    const result = await run();
+    emitAuthTelemetry({
+      ...details,
+      type,
+      success: true,
+      durationMs: performance.now() - startedAt,
+    });
+    return result;
+  } catch (error) {
+    emitAuthTelemetry({
+      ...details,
+      type,
+      success: false,
+      durationMs: performance.now() - startedAt,
+      error: toTelemetryError(error),
+    });
+    throw error;
+  }
+}
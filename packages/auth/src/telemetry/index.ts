@@ -0,0 +1,13 @@
+// packages/auth/src/telemetry/index.ts
+// Auth telemetry barrel export
+
+export {
+  configureAuthTelemetry,
+  onAuthTelemetry,
+  emitAuthTelemetry,
+  trackAuthOperation,
+  toTelemetryError,
+  type AuthTelemetryListener,
+  type AuthTelemetryInput,
+  type AuthTelemetrySource,
+} from './authTelemetry';
@@ -0,0 +1,285 @@
+/**
+ * @module @one-portal/auth/tokens
+ * @description Tracks access tokens per scope set and refreshes them before they expire
+ */
+
+import {
+  EventType,
+  type EventMessage,
+  type IPublicClientApplication,
+} from "@azure/msal-browser";
+import { publishAuthEvent } from "../events";
+import {
+  acquireToken,
+  isTokenValid,
+  type TokenResult,
+} from "../utils/acquireToken";
+
+export interface TokenManagerConfig {
+  msalInstance: IPublicClientApplication;
+
+  /** Application name for logging and event publishing */
+  appName: string;
+
+  /**
+   * Refresh tokens this many minutes before they expire
+   * @default 5
+   */
+  bufferMinutes?: number;
+
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+export interface GetTokenOptions {
+  /** Skip the tracked token and redeem the refresh token */
+  forceRefresh?: boolean;
+}
+
+interface TrackedToken {
+  scopes: string[];
+  result: TokenResult | null;
+  pending: Promise<TokenResult> | null;
+  timeoutId?: ReturnType<typeof setTimeout>;
+  /** When the last proactive refresh started (ms since epoch) */
+  refreshedAt?: number;
+}
+
+/**
+ * Proactive refreshes of one scope set are at least this far apart. A token
+ * whose lifetime is within the buffer would otherwise be refreshed again as
+ * soon as it arrives.
+ */
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Scope sets are compared without regard to order, case or duplicates
+ */
+function toScopeKey(scopes: string[]): string {
+  return [...new Set(scopes.map((scope) => scope.toLowerCase()))]
+    .sort()
+    .join(" ");
+}
+
+/**
+ * Keeps access tokens fresh so API calls don't hit an expired token.
+ *
+ * - Tracks the expiry of every token acquired through `getToken`, per scope set
+ * - Refreshes silently `bufferMinutes` before expiry
+ * - Shares one in-flight request between concurrent callers for the same scopes
+ * - Publishes `auth:token-acquired` for each acquired token
+ * - Pauses while the tab is hidden and catches up when it is visible again
+ * - Forgets every token on logout or when the active account changes
+ *
+ * `UnifiedAuthProvider` creates one per app; `useAuth().acquireToken` and
+ * `useTokenManager()` go through it.
+ *
+ * @example
+ * ```typescript
+ * const tokens = new TokenManager({ msalInstance, appName: 'domino' });
+ * tokens.start();
+ *
+ * const { accessToken } = await tokens.getToken(['api://domino/Tasks.Read']);
+ *
+ * tokens.stop();
+ * ```
+ */
+export class TokenManager {
+  private config: TokenManagerConfig;
+  private bufferMinutes: number;
+  private tokens: Map<string, TrackedToken>;
+  private accountId: string | null;
+  private eventCallbackId: string | null;
+
+  constructor(config: TokenManagerConfig) {
+    this.config = config;
+    this.bufferMinutes = config.bufferMinutes ?? 5;
+    this.tokens = new Map();
+    this.accountId = null;
+    this.eventCallbackId = null;
+  }
+
+  /**
+   * Start refreshing tracked tokens and listening for visibility and account changes
+   */
+  public start(): void {
+    if (this.eventCallbackId) return;
+
+    this.eventCallbackId = this.config.msalInstance.addEventCallback(
+      this.handleMsalEvent,
+    );
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    this.tokens.forEach((token) => this.schedule(token));
+  }
+
+  /**
+   * Stop refreshing. Tracked tokens are kept and served until they expire.
+   */
+  public stop(): void {
+    if (this.eventCallbackId) {
+      this.config.msalInstance.removeEventCallback(this.eventCallbackId);
+      this.eventCallbackId = null;
+    }
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange,
+    );
+    this.tokens.forEach((token) => clearTimeout(token.timeoutId));
+  }
+
+  /**
+   * Forget every tracked token and cancel scheduled refreshes
+   */
+  public clear(): void {
+    this.tokens.forEach((token) => clearTimeout(token.timeoutId));
+    this.tokens.clear();
+    this.accountId = null;
+  }
+
+  /**
+   * Get an access token for `scopes`, reusing the tracked one while it is
+   * outside the refresh buffer. Concurrent calls for the same scopes share
+   * one request.
+   */
+  public getToken(
+    scopes: string[],
+    options: GetTokenOptions = {},
+  ): Promise<TokenResult> {
+    const key = toScopeKey(scopes);
+    let token = this.tokens.get(key);
+
+    if (!token) {
+      token = { scopes, result: null, pending: null };
+      this.tokens.set(key, token);
+    }
+
+    if (token.pending) {
+      return token.pending;
+    }
+
+    if (
+      !options.forceRefresh &&
+      token.result &&
+      isTokenValid(token.result.expiresOn, this.bufferMinutes)
+    ) {
+      return Promise.resolve(token.result);
+    }
+
+    return this.acquire(key, token, options.forceRefresh ?? false);
+  }
+
+  private acquire(
+    key: string,
+    token: TrackedToken,
+    forceRefresh: boolean,
+  ): Promise<TokenResult> {
+    const { msalInstance, appName } = this.config;
+    const account =
+      msalInstance.getActiveAccount() ?? msalInstance.getAllAccounts()[0];
+
+    if (!account) {
+      return Promise.reject(
+        new Error(`[${appName}] No signed-in account to acquire a token for`),
+      );
+    }
+
+    token.pending = acquireToken({
+      msalInstance,
+      account,
+      scopes: token.scopes,
+      forceRefresh,
+    })
+      .then((result) => {
+        // Cleared (logout, account switch) while the request was in flight
+        if (this.tokens.get(key) !== token) {
+          return result;
+        }
+
+        token.result = result;
+        this.accountId = result.account.homeAccountId;
+        this.schedule(token);
+
+        publishAuthEvent("auth:token-acquired", {
+          scopes: result.scopes,
+          appName,
+        });
+
+        return result;
+      })
+      .finally(() => {
+        token.pending = null;
+      });
+
+    return token.pending;
+  }
+
+  /**
+   * Schedule a refresh at the start of the buffer window, but no sooner than
+   * `MIN_REFRESH_INTERVAL_MS` after the previous one. Nothing is scheduled
+   * while the tab is hidden; it catches up once visible.
+   */
+  private schedule(token: TrackedToken): void {
+    clearTimeout(token.timeoutId);
+    token.timeoutId = undefined;
+
+    const expiresOn = token.result?.expiresOn;
+    if (
+      !expiresOn ||
+      !this.eventCallbackId ||
+      document.visibilityState === "hidden"
+    ) {
+      return;
+    }
+
+    const refreshAt = Math.max(
+      expiresOn.getTime() - this.bufferMinutes * 60 * 1000,
+      (token.refreshedAt ?? 0) + MIN_REFRESH_INTERVAL_MS,
+    );
+    token.timeoutId = setTimeout(
+      () => void this.refresh(token),
+      Math.max(0, refreshAt - Date.now()),
+    );
+  }
+
+  private async refresh(token: TrackedToken): Promise<void> {
+    const { appName, debug } = this.config;
+    token.refreshedAt = Date.now();
+
+    try {
+      await this.getToken(token.scopes, { forceRefresh: true });
+
+      if (debug) {
+        console.info(
+          `[${appName}] Refreshed token for: ${token.scopes.join(" ")}`,
+        );
+      }
+    } catch (error) {
+      // The next getToken() call acquires on demand (and surfaces the error)
+      console.warn(
+        `[${appName}] Proactive token refresh failed for: ${token.scopes.join(" ")}`,
+        error,
+      );
+    }
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === "hidden") {
+      this.tokens.forEach((token) => clearTimeout(token.timeoutId));
+    } else {
+      this.tokens.forEach((token) => this.schedule(token));
+    }
+  };
+
+  private handleMsalEvent = (message: EventMessage): void => {
+    if (message.eventType === EventType.LOGOUT_SUCCESS) {
+      this.clear();
+    } else if (
+      message.eventType === EventType.ACTIVE_ACCOUNT_CHANGED &&
+      this.accountId !== null &&
+      this.config.msalInstance.getActiveAccount()?.homeAccountId !==
+        this.accountId
+    ) {
+      this.clear();
+    }
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * @module @one-portal/auth/tokens
+ * @description Proactive access token refresh
+ */
+
+export { TokenManager } from './TokenManager';
+export type { TokenManagerConfig, GetTokenOptions } from './TokenManager';
@@ -1,4 +1,4 @@
-import type { AccountInfo } from '@azure/msal-browser';
+import type { AccountInfo, AuthenticationResult } from '@azure/msal-browser';
 import type { AppMode } from '../utils/environment';
 
 export interface AuthConfig {
@@ -61,9 +61,16 @@ export interface AuthError {
  */
 export interface UseAuthReturn {
   state: AuthState;
-  login: () => Promise<void>;
+  /** Every account in the MSAL cache; `state.account` is the active one */
+  accounts: AccountInfo[];
+  /** Make a cached account active; signs in again when its session has expired */
+  switchAccount: (homeAccountId: string) => Promise<void>;
+  /** Resolves to the result of a popup sign-in, or `null` when redirecting */
+  login: () => Promise<AuthenticationResult | null>;
   logout: (postLogoutRedirectUri?: string) => Promise<void>;
   acquireToken: (scopes: string[]) => Promise<string | null>;
+  /** Access token from a popup, or `null` when redirecting */
+  acquireTokenInteractive: (scopes: string[], options?: { claims?: string }) => Promise<string | null>;
   hasRole: (roles: string | string[]) => boolean;
   clearError: () => void;
 }
@@ -1,21 +1,34 @@
 /**
  * Silent-first pattern for acquiring access tokens.
- * Tries acquireTokenSilent first, falls back to interactive methods when necessary.
+ * Tries acquireTokenSilent first, falls back to a popup or redirect when necessary.
+ * Every attempt is reported as auth telemetry (`token-acquired` / `token-refresh`).
  */
 
 import type {
   IPublicClientApplication,
   AccountInfo,
   SilentRequest,
-  PopupRequest,
 } from "@azure/msal-browser";
 import { InteractionRequiredAuthError } from "@azure/msal-browser";
+import { trackAuthOperation } from "../telemetry";
+import {
+  acquireTokenInteractive,
+  type InteractionStrategy,
+} from "../interaction/interactiveAuth";
 
 export interface AcquireTokenOptions {
   msalInstance: IPublicClientApplication;
   account: AccountInfo;
   scopes: string[];
   forceInteractive?: boolean;
+  /**
+   * How `forceInteractive` reaches the user. A redirect leaves the page, so
+   * the call rejects with the original interaction-required error.
+   * @default 'popup'
+   */
+  interactionStrategy?: InteractionStrategy;
+  /** Skip the token cache and redeem the refresh token */
+  forceRefresh?: boolean;
 }
 
 export interface TokenResult {
@@ -27,21 +40,32 @@ export interface TokenResult {
 }
 
 /**
- * Flow: Try silent acquisition (cache/refresh), fallback to popup if forceInteractive=true
+ * Flow: Try silent acquisition (cache/refresh), fallback to `interactionStrategy` if forceInteractive=true
  */
 export async function acquireToken(
   options: AcquireTokenOptions,
 ): Promise<TokenResult> {
-  const { msalInstance, account, scopes, forceInteractive = false } = options;
+  const {
+    msalInstance,
+    account,
+    scopes,
+    forceInteractive = false,
+    interactionStrategy = "popup",
+    forceRefresh = false,
+  } = options;
 
   const silentRequest: SilentRequest = {
     scopes,
     account,
-    forceRefresh: false,
+    forceRefresh,
   };
 
   try {
-    const response = await msalInstance.acquireTokenSilent(silentRequest);
+    const response = await trackAuthOperation(
+      forceRefresh ? "token-refresh" : "token-acquired",
+      () => msalInstance.acquireTokenSilent(silentRequest),
+      { metadata: { interaction: "silent", scopes } },
+    );
 
     return {
       accessToken: response.accessToken,
@@ -62,14 +86,18 @@ export async function acquireToken(
 
       // STEP 2: Fallback to interactive if allowed
       if (forceInteractive) {
-        return await acquireTokenInteractive(msalInstance, scopes, account);
+        const result = await acquireTokenWithInteraction(
+          msalInstance,
+          scopes,
+          account,
+          interactionStrategy,
+        );
+        if (!result) throw error;
+        return result;
       }
 
-      // Re-throw for caller to handle (e.g., redirect to sign-in)
-      throw new Error(
-        `Token acquisition requires user interaction. ${error.message}. ` +
-          `Error code: ${error.errorCode}`,
-      );
+      // Re-throw as-is so callers can detect it (AuthErrorHandler.isInteractionRequired)
+      throw error;
     }
 
     if (import.meta.env.DEV) {
@@ -85,19 +113,28 @@ export async function acquireToken(
   }
 }
 
-async function acquireTokenInteractive(
+/**
+ * `null` when the page is redirecting
+ */
+async function acquireTokenWithInteraction(
   msalInstance: IPublicClientApplication,
   scopes: string[],
   account: AccountInfo,
-): Promise<TokenResult> {
-  const popupRequest: PopupRequest = {
-    scopes,
-    account,
-    prompt: "select_account", // Let user confirm account
-  };
-
+  strategy: InteractionStrategy,
+): Promise<TokenResult | null> {
   try {
-    const response = await msalInstance.acquireTokenPopup(popupRequest);
+    const response = await acquireTokenInteractive({
+      msalInstance,
+      strategy,
+      request: {
+        scopes,
+        account,
+        prompt: "select_account", // Let user confirm account
+      },
+      telemetry: { metadata: { scopes } },
+    });
+
+    if (!response) return null;
 
     return {
       accessToken: response.accessToken,
@@ -22,6 +22,7 @@ export {
   getAccessToken,
   hasRole,
   hasAnyRole,
+  hasAllScopes,
 } from './msalHelpers';
 
 export {
@@ -42,6 +43,7 @@ export {
 
 export {
   isAuthenticated,
+  isAuthorized,
   attemptSilentAuth,
   createRouteGuard,
   isInteractionRequired,
@@ -58,6 +60,7 @@ export {
 
 export {
   isValidReturnUrl,
+  isAllowedOrigin,
   safeRedirect,
   sanitizeReturnUrl,
 } from './urlValidation';
@@ -1,11 +1,18 @@
 import { AuthError, InteractionRequiredAuthError } from '@azure/msal-browser';
+import { ApiAuthError } from '../api/ApiClient';
 
 /**
  * Auth errors (401/403) should not be retried - user needs to sign in.
+ * Covers `ApiError` (401/403) and `ApiAuthError` from the API client.
  */
 export function isAuthError(error: unknown): boolean {
   if (!error) return false;
 
+  // Token for an API call needs sign-in or consent
+  if (error instanceof ApiAuthError) {
+    return true;
+  }
+
   // Check for HTTP 401 Unauthorized or 403 Forbidden
   if (error instanceof Error && 'status' in error) {
     const status = (error as any).status;
@@ -43,3 +43,19 @@ export function hasAnyRole(account: AccountInfo | null, roles: string | string[]
 
   return requiredRoles.some(role => accountRoles.includes(role));
 }
+
+/**
+ * Check if account has all required scopes.
+ * Scopes are read from the `scp` claim (space-separated) of the ID token.
+ */
+export function hasAllScopes(account: AccountInfo | null, scopes: string | string[]): boolean {
+  if (!account?.idTokenClaims) return false;
+
+  const claim = (account.idTokenClaims as Record<string, unknown>).scp;
+  const accountScopes = typeof claim === 'string'
+    ? claim.split(' ').filter(Boolean)
+    : Array.isArray(claim) ? (claim as string[]) : [];
+  const requiredScopes = Array.isArray(scopes) ? scopes : [scopes];
+
+  return requiredScopes.every(scope => accountScopes.includes(scope));
+}
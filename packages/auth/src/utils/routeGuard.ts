@@ -1,9 +1,21 @@
-import type { PublicClientApplication } from '@azure/msal-browser';
+import type { AccountInfo, PublicClientApplication } from '@azure/msal-browser';
+import { hasAllScopes, hasAnyRole } from './msalHelpers';
 
 export interface MsalRouteGuardConfig {
   msalInstance: PublicClientApplication;
   scopes: string[];
+  /** Account must hold at least one of these roles (`roles` ID token claim) */
+  requiredRoles?: string[];
+  /** Account must hold all of these scopes (`scp` ID token claim) */
+  requiredScopes?: string[];
+  /** Custom authorization check, run after roles and scopes */
+  authorize?: (account: AccountInfo) => boolean | Promise<boolean>;
   onUnauthenticated?: (returnUrl: string) => void;
+  /**
+   * Called when the user is signed in but not authorized for the route.
+   * Runs outside the guard's error handling so it may throw a router redirect.
+   */
+  onForbidden?: (returnUrl: string) => void;
   onAuthError?: (error: Error) => void;
 }
 
@@ -12,6 +24,26 @@ export function isAuthenticated(msalInstance: PublicClientApplication): boolean
   return accounts.length > 0;
 }
 
+/**
+ * Check the active account against the guard's roles, scopes and `authorize` callback
+ */
+export async function isAuthorized(
+  account: AccountInfo,
+  config: Pick<MsalRouteGuardConfig, 'requiredRoles' | 'requiredScopes' | 'authorize'>
+): Promise<boolean> {
+  const { requiredRoles, requiredScopes, authorize } = config;
+
+  if (requiredRoles?.length && !hasAnyRole(account, requiredRoles)) {
+    return false;
+  }
+
+  if (requiredScopes?.length && !hasAllScopes(account, requiredScopes)) {
+    return false;
+  }
+
+  return authorize ? authorize(account) : true;
+}
+
 /**
  * NOTE: Should NOT be called from route guards as it causes iframe errors when no user is signed in.
  */
@@ -31,7 +63,7 @@ export async function attemptSilentAuth(
     }
 
     return false;
-  } catch (error) {
+  } catch {
     return false;
   }
 }
@@ -45,14 +77,19 @@ export function createRouteGuard(config: MsalRouteGuardConfig) {
   }: {
     location: { href: string };
   }) => {
-    const { msalInstance, onUnauthenticated, onAuthError } = config;
+    const { msalInstance, onUnauthenticated, onForbidden, onAuthError } = config;
+    let forbidden = false;
 
     try {
       if (!isAuthenticated(msalInstance)) {
         if (onUnauthenticated) {
           onUnauthenticated(location.href);
         }
+        return;
       }
+
+      const account = msalInstance.getActiveAccount() ?? msalInstance.getAllAccounts()[0];
+      forbidden = !!account && !(await isAuthorized(account, config));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       if (onAuthError) {
@@ -60,6 +97,11 @@ export function createRouteGuard(config: MsalRouteGuardConfig) {
       } else {
         console.error('[RouteGuard] Auth check failed:', err);
       }
+      return;
+    }
+
+    if (forbidden && onForbidden) {
+      onForbidden(location.href);
     }
   };
 }
@@ -1,3 +1,5 @@
+import { STORAGE_KEYS } from '@one-portal/types';
+
 const STORAGE_PREFIX = 'oneportal:auth:';
 
 export function getStorageItem(key: string): string | null {
@@ -25,11 +27,15 @@ export function removeStorageItem(key: string): void {
   }
 }
 
+/**
+ * Remove auth keys. The logout marker (`STORAGE_KEYS.AUTH_LOGOUT`) is kept,
+ * since it has to outlive the session it ended.
+ */
 export function clearAuthStorage(): void {
   try {
     const keys = Object.keys(localStorage);
     keys.forEach(key => {
-      if (key.startsWith(STORAGE_PREFIX)) {
+      if (key.startsWith(STORAGE_PREFIX) && key !== STORAGE_KEYS.AUTH_LOGOUT) {
         localStorage.removeItem(key);
       }
     });
@@ -60,6 +60,48 @@ export function isValidReturnUrl(url: string): boolean {
   }
 }
 
+/**
+ * Validates that a URL (or bare origin) belongs to one of the allowed origins
+ * Used for cross-origin content the shell embeds, e.g. iframe sources and
+ * the origin of postMessage events
+ *
+ * @param url - The URL or origin to validate
+ * @param allowedOrigins - Origins such as `https://app.example.com`
+ * @returns true if the URL is on an allowed origin, false otherwise
+ */
+export function isAllowedOrigin(url: string, allowedOrigins: readonly string[]): boolean {
+  if (!url || typeof url !== 'string') {
+    return false;
+  }
+
+  try {
+    const parsed = new URL(url);
+
+    // Only embed web content; rejects javascript:, data:, blob: and opaque ("null") origins
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      console.warn('[URL Validation] Rejected non-HTTP origin:', url);
+      return false;
+    }
+
+    const allowed = allowedOrigins.some((origin) => {
+      try {
+        return new URL(origin).origin === parsed.origin;
+      } catch {
+        return false;
+      }
+    });
+    if (!allowed) {
+      console.warn('[URL Validation] Rejected origin not in allow list:', parsed.origin);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.warn('[URL Validation] Invalid URL format:', url, error);
+    return false;
+  }
+}
+
 /**
  * Safely redirects to a URL after validation
  * Falls back to a safe default if validation fails
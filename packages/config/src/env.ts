@@ -16,6 +16,9 @@ export const shellEnvSchema = z.object({
   // API Configuration
   VITE_API_BASE_URL: z.string().url('API Base URL must be a valid URL').optional(),
 
+  // Shell configuration endpoint (absolute URL or same-origin path)
+  VITE_SHELL_CONFIG_URL: z.string().min(1, 'Shell config URL must not be empty').optional(),
+
   // Application Mode
   VITE_APP_MODE: z.enum(['embedded', 'standalone', 'auto']).optional(),
 
@@ -11,6 +11,7 @@ interface ImportMetaEnv extends Record<string, unknown> {
 
   // API Configuration
   readonly VITE_API_BASE_URL?: string;
+  readonly VITE_SHELL_CONFIG_URL?: string;
 
   // Application Mode
   readonly VITE_APP_MODE?: 'embedded' | 'standalone' | 'auto';
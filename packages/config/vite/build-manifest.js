@@ -0,0 +1,117 @@
+import { execSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+
+/** Must match `BUILD_MANIFEST_FILENAME` in @one-portal/types */
+const BUILD_MANIFEST_FILENAME = 'build-manifest.json';
+
+export const BUILD_MANIFEST_MODULE_ID = 'virtual:build-manifest';
+const RESOLVED_MODULE_ID = `\0${BUILD_MANIFEST_MODULE_ID}`;
+
+/**
+ * Describe the build in a manifest: installed versions of the federation
+ * `shared` dependencies, the remote lifecycle contract version and the
+ * source revision.
+ *
+ * The manifest is emitted as `build-manifest.json` in the assets directory,
+ * next to `remoteEntry.js`, and can be imported as `virtual:build-manifest`.
+ * The revision comes from `BUILD_HASH` or, failing that, git.
+ *
+ * @param {import('./index').BuildManifestPluginOptions} options
+ * @returns {import('vite').Plugin}
+ */
+export function buildManifest(options) {
+  let root = process.cwd();
+  let assetsDir = 'assets';
+  /** @type {import('@one-portal/types').BuildManifest | undefined} */
+  let manifest;
+
+  const getManifest = () => {
+    manifest ??= {
+      name: options.name,
+      contractVersion: require('@one-portal/types/contract.json').version,
+      buildHash: process.env.BUILD_HASH ?? readGitRevision(root) ?? 'unknown',
+      builtAt: new Date().toISOString(),
+      shared: Object.fromEntries(
+        Object.entries(options.shared).map(([name, config]) => [
+          name,
+          {
+            version: readInstalledVersion(root, name) ?? '0.0.0',
+            requiredVersion: config.requiredVersion,
+            singleton: config.singleton,
+          },
+        ])
+      ),
+    };
+    return manifest;
+  };
+
+  return {
+    name: 'one-portal-build-manifest',
+
+    configResolved(config) {
+      root = config.root;
+      assetsDir = config.build.assetsDir;
+    },
+
+    resolveId(id) {
+      return id === BUILD_MANIFEST_MODULE_ID ? RESOLVED_MODULE_ID : undefined;
+    },
+
+    load(id) {
+      return id === RESOLVED_MODULE_ID
+        ? `export default ${JSON.stringify(getManifest())};`
+        : undefined;
+    },
+
+    generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: path.posix.join(assetsDir, BUILD_MANIFEST_FILENAME),
+        source: JSON.stringify(getManifest(), null, 2),
+      });
+    },
+  };
+}
+
+/**
+ * Resolve `<dir>/node_modules/<name>/package.json` from `root` upwards
+ *
+ * @param {string} root
+ * @param {string} name
+ * @returns {string | undefined}
+ */
+function readInstalledVersion(root, name) {
+  let dir = root;
+
+  for (;;) {
+    const packageJson = path.join(dir, 'node_modules', name, 'package.json');
+    if (existsSync(packageJson)) {
+      return JSON.parse(readFileSync(packageJson, 'utf8')).version;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * @param {string} cwd
+ * @returns {string | undefined}
+ */
+function readGitRevision(cwd) {
+  try {
+    return execSync('git rev-parse --short HEAD', {
+      cwd,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,18 @@
+import type { Plugin } from 'vite';
+
+/** Subset of a federation `shared` entry the manifest records */
+export interface SharedDependencyConfig {
+  singleton?: boolean;
+  requiredVersion?: string;
+}
+
+export interface BuildManifestPluginOptions {
+  /** Federation name, e.g. `domino` */
+  name: string;
+  /** The same object passed to `federation({ shared })` */
+  shared: Record<string, SharedDependencyConfig>;
+}
+
+export declare const BUILD_MANIFEST_MODULE_ID: 'virtual:build-manifest';
+
+export declare function buildManifest(options: BuildManifestPluginOptions): Plugin;
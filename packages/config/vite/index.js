@@ -0,0 +1,16 @@
+/**
+ * Shared Vite plugins for the monorepo
+ *
+ * @example Build manifest (for the shell and remotes)
+ * ```js
+ * import { buildManifest } from '@one-portal/config/vite';
+ *
+ * const shared = { react: { singleton: true, requiredVersion: '^19.2.0' } };
+ *
+ * export default defineConfig({
+ *   plugins: [buildManifest({ name: 'domino', shared }), federation({ name: 'domino', shared })],
+ * });
+ * ```
+ */
+
+export { buildManifest, BUILD_MANIFEST_MODULE_ID } from './build-manifest.js';
@@ -0,0 +1,200 @@
+import { isCompatibleContractVersion } from './remote-app';
+
+/**
+ * File emitted next to `remoteEntry.js` describing how a remote was built
+ */
+export const BUILD_MANIFEST_FILENAME = 'build-manifest.json';
+
+export interface SharedDependencyInfo {
+  /** Version installed when the bundle was built */
+  version: string;
+  /** Range declared in the federation `shared` config */
+  requiredVersion?: string;
+  singleton?: boolean;
+}
+
+export interface BuildManifest {
+  /** Federation name, e.g. `domino` */
+  name: string;
+  contractVersion: string;
+  /** Source revision the bundle was built from */
+  buildHash: string;
+  /** ISO timestamp */
+  builtAt: string;
+  shared: Record<string, SharedDependencyInfo>;
+}
+
+/**
+ * - `ok`: versions are compatible
+ * - `info`: only the host shares the dependency; the remote bundles its own copy if it uses it
+ * - `warning`: versions differ in a backwards-compatible way, or the remote expects a
+ *   dependency the host does not share
+ * - `error`: a singleton cannot be satisfied, or the contract versions are incompatible
+ *   (see `isCompatibleContractVersion`)
+ */
+export type CompatibilityLevel = 'ok' | 'info' | 'warning' | 'error';
+
+export interface SharedDependencyCheck {
+  name: string;
+  hostVersion?: string;
+  remoteVersion?: string;
+  requiredVersion?: string;
+  level: CompatibilityLevel;
+  reason?: string;
+}
+
+export interface CompatibilityReport {
+  /** Highest level among all checks */
+  level: CompatibilityLevel;
+  contract: { hostVersion: string; remoteVersion: string; level: CompatibilityLevel };
+  dependencies: SharedDependencyCheck[];
+}
+
+type Version = [major: number, minor: number, patch: number];
+
+function parseVersion(value: string): Version | null {
+  const match = /^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const part = (raw: string | undefined) => (raw && /^\d+$/.test(raw) ? Number(raw) : 0);
+  return [Number(match[1]), part(match[2]), part(match[3])];
+}
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Check `version` against a semver range. Supports the forms used in federation
+ * configs: `*`, exact versions, `^`, `~`, `>=`, and space-separated comparator sets.
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const actual = parseVersion(version);
+  if (!actual) {
+    return false;
+  }
+
+  return range
+    .split('||')
+    .some((set) => set.trim().split(/\s+/).every((comparator) => satisfies(actual, comparator)));
+}
+
+function satisfies(actual: Version, comparator: string): boolean {
+  if (comparator === '' || comparator === '*' || comparator === 'x') {
+    return true;
+  }
+
+  const [, operator = '', raw = ''] = /^(\^|~|>=|<=|>|<|=)?(.*)$/.exec(comparator) ?? [];
+  const target = parseVersion(raw);
+  if (!target) {
+    return false;
+  }
+  const diff = compareVersions(actual, target);
+
+  switch (operator) {
+    case '^':
+      // ^0.x.y only allows patch updates within the same minor
+      return (
+        diff >= 0 &&
+        actual[0] === target[0] &&
+        (target[0] !== 0 || actual[1] === target[1])
+      );
+    case '~':
+      return diff >= 0 && actual[0] === target[0] && actual[1] === target[1];
+    case '>=':
+      return diff >= 0;
+    case '<=':
+      return diff <= 0;
+    case '>':
+      return diff > 0;
+    case '<':
+      return diff < 0;
+    default:
+      return diff === 0;
+  }
+}
+
+const LEVEL_ORDER: CompatibilityLevel[] = ['ok', 'info', 'warning', 'error'];
+
+function maxLevel(levels: CompatibilityLevel[]): CompatibilityLevel {
+  return levels.reduce<CompatibilityLevel>(
+    (max, level) => (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(max) ? level : max),
+    'ok'
+  );
+}
+
+function checkDependency(
+  name: string,
+  host: SharedDependencyInfo | undefined,
+  remote: SharedDependencyInfo | undefined
+): SharedDependencyCheck {
+  const check: SharedDependencyCheck = {
+    name,
+    hostVersion: host?.version,
+    remoteVersion: remote?.version,
+    requiredVersion: remote?.requiredVersion,
+    level: 'ok',
+  };
+
+  if (!remote) {
+    return { ...check, level: 'info', reason: 'Not shared by the remote' };
+  }
+  if (!host) {
+    return {
+      ...check,
+      level: 'warning',
+      reason: 'Not shared by the host; the remote falls back to its own copy',
+    };
+  }
+
+  const hostVersion = parseVersion(host.version);
+  const remoteVersion = parseVersion(remote.version);
+  // Without an explicit range, the remote accepts any version with the same major
+  const range = remote.requiredVersion ?? `^${remote.version}`;
+
+  if (!satisfiesVersionRange(host.version, range)) {
+    return {
+      ...check,
+      level: remote.singleton || host.singleton ? 'error' : 'warning',
+      reason: `Host version ${host.version} does not satisfy ${range}`,
+    };
+  }
+  // Patch differences are expected; a newer minor may rely on APIs the host lacks
+  const [hostMajor, hostMinor] = hostVersion ?? [0, 0];
+  const [remoteMajor, remoteMinor] = remoteVersion ?? [0, 0];
+  if ((hostMajor - remoteMajor || hostMinor - remoteMinor) < 0) {
+    return {
+      ...check,
+      level: 'warning',
+      reason: `Remote was built against newer ${remote.version}`,
+    };
+  }
+  return check;
+}
+
+/**
+ * Compare a remote's build manifest with the host's
+ */
+export function compareBuildManifests(
+  host: Pick<BuildManifest, 'contractVersion' | 'shared'>,
+  remote: Pick<BuildManifest, 'contractVersion' | 'shared'>
+): CompatibilityReport {
+  const names = [...new Set([...Object.keys(host.shared), ...Object.keys(remote.shared)])].sort();
+  const dependencies = names.map((name) =>
+    checkDependency(name, host.shared[name], remote.shared[name])
+  );
+  const contract = {
+    hostVersion: host.contractVersion,
+    remoteVersion: remote.contractVersion,
+    level: isCompatibleContractVersion(remote.contractVersion, host.contractVersion)
+      ? ('ok' as const)
+      : ('error' as const),
+  };
+
+  return {
+    level: maxLevel([contract.level, ...dependencies.map((dependency) => dependency.level)]),
+    contract,
+    dependencies,
+  };
+}
@@ -1,12 +1,69 @@
-export interface RemoteApp {
+import type { MountFunction, UnmountFunction } from './remote-app';
+
+interface RemoteAppBase {
   id: string;
   name: string;
-  remoteEntryUrl: string;
-  moduleName: string;
-  scope: string;
   icon?: string;
   order?: number;
   enabled?: boolean;
+  /** App roles (ID token `roles` claim); the user needs at least one to open the app */
+  requiredRoles?: string[];
+}
+
+/**
+ * Module Federation remote exposing the lifecycle contract via `./bootstrap`
+ */
+export interface FederatedRemoteApp extends RemoteAppBase {
+  kind?: 'federation';
+  remoteEntryUrl: string;
+  /** Alternative entry URLs (e.g. CDN, then origin) tried when `remoteEntryUrl` fails */
+  fallbackEntryUrls?: string[];
+  moduleName: string;
+  scope: string;
+  /** Park the remote offscreen instead of unmounting it when navigating away */
+  keepAlive?: boolean;
+  /**
+   * How to treat shared dependency mismatches reported by the remote's build
+   * manifest: `strict` (default) refuses to load, `warn` only logs them
+   */
+  versionPolicy?: 'strict' | 'warn';
+  /**
+   * How the remote's stylesheets are applied: `none` (default) adds them to the
+   * document, `shadow` mounts the remote in a shadow root that adopts them,
+   * `scoped` wraps every rule in `@scope` around the remote's container.
+   * Stylesheets are removed again when the remote unmounts.
+   */
+  styleIsolation?: 'none' | 'shadow' | 'scoped';
+}
+
+/**
+ * Standalone SPA on its own origin, rendered in a sandboxed iframe and
+ * connected to the shell through the iframe bridge (see `iframe-bridge.ts`)
+ */
+export interface IframeRemoteApp extends RemoteAppBase {
+  kind: 'iframe';
+  /** Absolute URL the app is served from; deep links resolve against it */
+  url: string;
+  /**
+   * Additional origins allowed to talk to the shell over the bridge, e.g.
+   * when the app redirects across origins. The origin of `url` is always
+   * allowed.
+   */
+  allowedOrigins?: string[];
+  /** `sandbox` tokens, replacing the default `allow-scripts allow-same-origin allow-forms allow-popups` */
+  sandbox?: string[];
+  /** Permissions policy for the frame (`allow` attribute), e.g. `clipboard-write` */
+  allow?: string;
+}
+
+export type RemoteApp = FederatedRemoteApp | IframeRemoteApp;
+
+export function isIframeRemoteApp(app: RemoteApp): app is IframeRemoteApp {
+  return app.kind === 'iframe';
+}
+
+export function isFederatedRemoteApp(app: RemoteApp): app is FederatedRemoteApp {
+  return app.kind !== 'iframe';
 }
 
 export interface ShellConfiguration {
@@ -19,16 +76,18 @@ export interface ShellConfiguration {
     theme?: 'light' | 'dark' | 'system';
     language?: 'en' | 'es' | 'fr' | 'de';
   };
+  /** Maximum number of keep-alive remotes parked at once (LRU eviction) */
+  keepAliveLimit?: number;
 }
 
 /**
  * Internal metadata for tracking loaded remote applications
  */
 export interface RemoteMetadata {
-  app: RemoteApp;
+  app: FederatedRemoteApp;
   isLoaded: boolean;
-  mount?: (containerId: string) => void | Promise<void>;
-  unmount?: (containerId: string) => void | Promise<void>;
+  mount?: MountFunction;
+  unmount?: UnmountFunction;
   loadedAt?: Date;
   error?: {
     message: string;
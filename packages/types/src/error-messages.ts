@@ -11,6 +11,12 @@ export const ERROR_MESSAGES = {
       `${appName} could not be displayed. Please refresh the page or contact support.`,
 
     GENERIC_ERROR: 'An unexpected error occurred while loading the application. Please try again.',
+
+    INCOMPATIBLE: (appName: string, version: string) =>
+      `${appName} (lifecycle contract ${version}) is not compatible with this version of OnePortal. Please contact support.`,
+
+    SHARED_DEPENDENCY_MISMATCH: (appName: string, dependencies: string[]) =>
+      `${appName} was built against versions of ${dependencies.join(', ')} that this version of OnePortal cannot provide. Please contact support.`,
   },
 
   CONFIG_API: {
@@ -54,6 +60,14 @@ export const ERROR_MESSAGES = {
       'Browser storage is disabled. Some features may not work correctly.',
   },
 
+  MESSAGE_BUS: {
+    REQUEST_TIMEOUT: (type: string, timeoutMs: number) =>
+      `No response to "${type}" within ${timeoutMs}ms.`,
+
+    REQUEST_FAILED: (type: string) =>
+      `The "${type}" request could not be completed.`,
+  },
+
   GENERIC: {
     UNEXPECTED:
       'An unexpected error occurred. Please refresh the page or contact support.',
@@ -66,6 +80,7 @@ export const ERROR_MESSAGES = {
 export enum ErrorCode {
   REMOTE_LOAD_FAILED = 'ERR_1001',
   REMOTE_MOUNT_FAILED = 'ERR_1002',
+  REMOTE_INCOMPATIBLE = 'ERR_1003',
   REMOTE_GENERIC = 'ERR_1000',
 
   CONFIG_FETCH_FAILED = 'ERR_2001',
@@ -83,6 +98,9 @@ export enum ErrorCode {
   COMPAT_UNSUPPORTED = 'ERR_5001',
   COMPAT_NO_STORAGE = 'ERR_5002',
 
+  BUS_TIMEOUT = 'ERR_6001',
+  BUS_REQUEST_FAILED = 'ERR_6002',
+
   GENERIC_UNEXPECTED = 'ERR_9000',
   GENERIC_NOT_IMPLEMENTED = 'ERR_9999',
 }
@@ -0,0 +1,218 @@
+import { LANGUAGE_LABELS, type Language } from './preferences';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGE_LABELS) as Language[];
+
+/**
+ * Message with plural forms, selected by the `count` parameter using
+ * `Intl.PluralRules`. `zero` is used for a count of 0 when present.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/** Messages may reference parameters as `{name}` */
+export type Message = string | PluralMessage;
+
+export type MessageCatalog = Record<string, Message>;
+
+/**
+ * Message catalogs keyed by namespace. The English catalog of each namespace
+ * defines its keys; other languages fall back to English per key.
+ *
+ * Apps declare their own namespaces by augmenting this interface:
+ *
+ * @example
+ * ```typescript
+ * const dominoMessages = { 'tasks.title': 'Tasks' } satisfies MessageCatalog;
+ *
+ * declare module '@one-portal/types' {
+ *   interface I18nNamespaces {
+ *     domino: typeof dominoMessages;
+ *   }
+ * }
+ *
+ * registerMessages('domino', { en: dominoMessages, de: { 'tasks.title': 'Aufgaben' } });
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface I18nNamespaces {}
+
+export type I18nNamespace = keyof I18nNamespaces;
+
+export type MessageKey<N extends I18nNamespace> = Extract<keyof I18nNamespaces[N], string>;
+
+export type LocalizedCatalogs<N extends I18nNamespace> = {
+  en: I18nNamespaces[N];
+} & Partial<Record<Exclude<Language, 'en'>, Partial<Record<MessageKey<N>, Message>>>>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translator<N extends I18nNamespace> = (
+  key: MessageKey<N>,
+  params?: TranslationParams
+) => string;
+
+type CatalogRegistry = Map<string, Partial<Record<Language, MessageCatalog>>>;
+
+declare global {
+  interface Window {
+    __ONE_PORTAL_I18N__?: CatalogRegistry;
+  }
+}
+
+/**
+ * Shell and remotes bundle their own copy of this module, so the registry
+ * lives on `window` to let every copy see every namespace.
+ */
+function getRegistry(): CatalogRegistry {
+  window.__ONE_PORTAL_I18N__ ??= new Map();
+  return window.__ONE_PORTAL_I18N__;
+}
+
+/**
+ * Register (or extend) the catalogs of a namespace. Later registrations
+ * override earlier ones key by key.
+ */
+export function registerMessages<N extends I18nNamespace>(
+  namespace: N,
+  catalogs: LocalizedCatalogs<N>
+): void {
+  const registry = getRegistry();
+  const existing = registry.get(namespace) ?? {};
+
+  for (const [language, catalog] of Object.entries(catalogs)) {
+    const lang = language as Language;
+    existing[lang] = { ...existing[lang], ...(catalog as MessageCatalog) };
+  }
+  registry.set(namespace, existing);
+}
+
+export function getRegisteredNamespaces(): string[] {
+  return [...getRegistry().keys()];
+}
+
+export function isSupportedLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Translate `key` in `namespace`, falling back to English and then to the key itself
+ */
+export function translate<N extends I18nNamespace>(
+  locale: Language,
+  namespace: N,
+  key: MessageKey<N>,
+  params?: TranslationParams
+): string {
+  const catalogs = getRegistry().get(namespace);
+  const message = catalogs?.[locale]?.[key] ?? catalogs?.[DEFAULT_LANGUAGE]?.[key];
+
+  if (message === undefined) {
+    return key;
+  }
+
+  const template =
+    typeof message === 'string' ? message : selectPluralForm(message, locale, params?.count);
+  return interpolate(template, locale, params);
+}
+
+export function createTranslator<N extends I18nNamespace>(
+  locale: Language,
+  namespace: N
+): Translator<N> {
+  return (key, params) => translate(locale, namespace, key, params);
+}
+
+function selectPluralForm(
+  message: PluralMessage,
+  locale: Language,
+  count: string | number | undefined
+): string {
+  if (typeof count !== 'number') {
+    return message.other;
+  }
+  if (count === 0 && message.zero !== undefined) {
+    return message.zero;
+  }
+  const category = getCached(`plural:${locale}`, () => new Intl.PluralRules(locale)).select(count);
+  return message[category] ?? message.other;
+}
+
+function interpolate(template: string, locale: Language, params?: TranslationParams): string {
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return match;
+    }
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+}
+
+const formatterCache = new Map<string, unknown>();
+
+function getCached<T>(key: string, create: () => T): T {
+  if (!formatterCache.has(key)) {
+    formatterCache.set(key, create());
+  }
+  return formatterCache.get(key) as T;
+}
+
+export function formatNumber(
+  value: number,
+  locale: Language,
+  options?: Intl.NumberFormatOptions
+): string {
+  return getCached(
+    `number:${locale}:${JSON.stringify(options ?? {})}`,
+    () => new Intl.NumberFormat(locale, options)
+  ).format(value);
+}
+
+export function formatDate(
+  value: Date | number | string,
+  locale: Language,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  return getCached(
+    `date:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.DateTimeFormat(locale, options)
+  ).format(date);
+}
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/**
+ * Format a date relative to `now`, e.g. "5 minutes ago" or "in 2 days"
+ */
+export function formatRelativeTime(
+  value: Date | number | string,
+  locale: Language,
+  now: Date | number = Date.now()
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  const seconds = Math.round((date.getTime() - new Date(now).getTime()) / 1000);
+  const formatter = getCached(
+    `relative:${locale}`,
+    () => new Intl.RelativeTimeFormat(locale, { numeric: 'auto' })
+  );
+
+  for (const [unit, unitSeconds] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(seconds) >= unitSeconds || unit === 'second') {
+      return formatter.format(Math.round(seconds / unitSeconds), unit);
+    }
+  }
+  return formatter.format(0, 'second');
+}
@@ -0,0 +1,209 @@
+import type { Language, Theme } from './preferences';
+
+/**
+ * Marks postMessage payloads that belong to the shell <-> iframe bridge, so
+ * both sides can ignore unrelated messages (devtools, analytics, MSAL)
+ */
+export const IFRAME_BRIDGE_PROTOCOL = 'one-portal:iframe-bridge';
+
+/**
+ * Hints for signing in silently inside the frame with the shell's account,
+ * e.g. `ssoSilent({ loginHint })` or `ssoSilent({ sid })`. Tokens never
+ * cross the bridge.
+ */
+export interface IframeSsoHints {
+  loginHint: string;
+  homeAccountId: string;
+  tenantId?: string;
+  /** Session ID (`sid` claim) when the ID token carries one */
+  sid?: string;
+}
+
+/**
+ * Shell state sent to the frame when it reports `ready`
+ */
+export interface IframeShellState {
+  theme: Theme;
+  locale: Language;
+  /** Current path relative to the app's base, e.g. `/orders/42?tab=lines` */
+  path: string;
+  sso: IframeSsoHints | null;
+}
+
+/**
+ * Messages the shell posts into the frame
+ */
+export type ShellToFrameMessage =
+  | { type: 'init'; payload: IframeShellState }
+  | { type: 'theme-changed'; payload: { theme: Theme } }
+  | { type: 'locale-changed'; payload: { locale: Language } }
+  /** The shell's location changed (back/forward, breadcrumbs, palette) */
+  | { type: 'navigate'; payload: { path: string } }
+  | { type: 'sso-changed'; payload: { sso: IframeSsoHints | null } };
+
+/**
+ * Messages the frame posts to the shell
+ */
+export type FrameToShellMessage =
+  | { type: 'ready' }
+  /** Content height in CSS pixels; the shell resizes the iframe to match */
+  | { type: 'resize'; payload: { height: number } }
+  /** The frame navigated; the shell mirrors the path under `/apps/<id>` */
+  | { type: 'location-changed'; payload: { path: string; replace?: boolean } }
+  | { type: 'set-title'; payload: { title: string | null } }
+  /** The user interacted with the frame; keeps the shell's idle timeout from expiring */
+  | { type: 'activity' };
+
+export type IframeBridgeMessage<M extends ShellToFrameMessage | FrameToShellMessage> = M & {
+  protocol: typeof IFRAME_BRIDGE_PROTOCOL;
+};
+
+export function isIframeBridgeMessage(
+  data: unknown
+): data is IframeBridgeMessage<ShellToFrameMessage | FrameToShellMessage> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { protocol?: unknown }).protocol === IFRAME_BRIDGE_PROTOCOL &&
+    typeof (data as { type?: unknown }).type === 'string'
+  );
+}
+
+/**
+ * Check that a bridge message from a frame is one the shell understands and
+ * carries a well-formed payload. Frames are untrusted, so the shell validates
+ * every message before reading it.
+ */
+export function isFrameToShellMessage(data: unknown): data is FrameToShellMessage {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const { type, payload } = data as { type?: unknown; payload?: unknown };
+  const fields =
+    typeof payload === 'object' && payload !== null ? (payload as Record<string, unknown>) : null;
+
+  switch (type) {
+    case 'ready':
+    case 'activity':
+      return true;
+    case 'resize':
+      return typeof fields?.height === 'number' && Number.isFinite(fields.height);
+    case 'location-changed':
+      return (
+        typeof fields?.path === 'string' &&
+        (fields.replace === undefined || typeof fields.replace === 'boolean')
+      );
+    case 'set-title':
+      return fields !== null && (typeof fields.title === 'string' || fields.title === null);
+    default:
+      return false;
+  }
+}
+
+export interface ShellConnectionOptions {
+  /** Origin of the shell, e.g. `https://portal.example.com`; messages from anywhere else are ignored */
+  shellOrigin: string;
+  onMessage: (message: ShellToFrameMessage) => void;
+  /** Report the document height whenever it changes (default true) */
+  autoResize?: boolean;
+  /** Report user interaction, at most every 15 seconds (default true) */
+  reportActivity?: boolean;
+}
+
+export interface ShellConnection {
+  reportLocation: (path: string, options?: { replace?: boolean }) => void;
+  setTitle: (title: string | null) => void;
+  disconnect: () => void;
+}
+
+const FRAME_ACTIVITY_EVENTS = [
+  'pointerdown',
+  'pointermove',
+  'keydown',
+  'wheel',
+  'scroll',
+  'touchstart',
+];
+const FRAME_ACTIVITY_INTERVAL_MS = 15_000;
+
+/**
+ * Frame side of the bridge, for apps rendered as `kind: 'iframe'` remotes.
+ * Announces `ready` to the shell, answers only messages from `shellOrigin`
+ * and keeps the shell informed of the content height and of user activity,
+ * which the shell's idle timeout cannot see inside the frame.
+ *
+ * @example
+ * ```typescript
+ * const shell = connectToShell({
+ *   shellOrigin: 'https://portal.example.com',
+ *   onMessage: (message) => {
+ *     if (message.type === 'init') applyTheme(message.payload.theme);
+ *   },
+ * });
+ * router.subscribe((path) => shell.reportLocation(path));
+ * ```
+ */
+export function connectToShell(options: ShellConnectionOptions): ShellConnection {
+  const { shellOrigin, onMessage, autoResize = true, reportActivity = true } = options;
+  const parent = window.parent;
+
+  const post = (message: FrameToShellMessage) => {
+    if (parent !== window) {
+      parent.postMessage({ ...message, protocol: IFRAME_BRIDGE_PROTOCOL }, shellOrigin);
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== parent || event.origin !== shellOrigin) {
+      return;
+    }
+    if (isIframeBridgeMessage(event.data)) {
+      onMessage(event.data as ShellToFrameMessage);
+    }
+  };
+  window.addEventListener('message', handleMessage);
+
+  let observer: ResizeObserver | undefined;
+  if (autoResize && typeof ResizeObserver !== 'undefined') {
+    let lastHeight = -1;
+    // Measures <html>, so apps must not pin it to the viewport (`height: 100%`)
+    observer = new ResizeObserver(() => {
+      const height = Math.ceil(document.documentElement.getBoundingClientRect().height);
+      if (height !== lastHeight) {
+        lastHeight = height;
+        post({ type: 'resize', payload: { height } });
+      }
+    });
+    observer.observe(document.documentElement);
+  }
+
+  let lastActivityAt = 0;
+  const handleActivity = () => {
+    const now = Date.now();
+    if (now - lastActivityAt >= FRAME_ACTIVITY_INTERVAL_MS) {
+      lastActivityAt = now;
+      post({ type: 'activity' });
+    }
+  };
+  if (reportActivity) {
+    FRAME_ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, handleActivity, { capture: true, passive: true })
+    );
+  }
+
+  post({ type: 'ready' });
+
+  return {
+    reportLocation: (path, locationOptions) =>
+      post({ type: 'location-changed', payload: { path, replace: locationOptions?.replace } }),
+    setTitle: (title) => post({ type: 'set-title', payload: { title } }),
+    disconnect: () => {
+      window.removeEventListener('message', handleMessage);
+      FRAME_ACTIVITY_EVENTS.forEach((type) =>
+        window.removeEventListener(type, handleActivity, { capture: true })
+      );
+      observer?.disconnect();
+    },
+  };
+}
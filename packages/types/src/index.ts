@@ -1,20 +1,131 @@
 // Configuration types
 export type {
   RemoteApp,
+  FederatedRemoteApp,
+  IframeRemoteApp,
   ShellConfiguration,
   RemoteMetadata,
 } from './config';
+export { isIframeRemoteApp, isFederatedRemoteApp } from './config';
 
 // Remote app lifecycle types
-export type { MountFunction, UnmountFunction } from './remote-app';
+export type {
+  MountFunction,
+  UnmountFunction,
+  UpdateFunction,
+  RemoteLifecycle,
+  RemoteMountContext,
+  RemoteAppMetadata,
+  RemoteAuthHandle,
+  RemoteAccount,
+  ShellHostApi,
+  ShellBreadcrumb,
+  NotificationLevel,
+  RemoteMenuItem,
+  RemoteCommandAction,
+} from './remote-app';
+export { REMOTE_CONTRACT_VERSION, isCompatibleContractVersion } from './remote-app';
+
+// Build manifests and shared dependency negotiation
+export type {
+  BuildManifest,
+  SharedDependencyInfo,
+  SharedDependencyCheck,
+  CompatibilityLevel,
+  CompatibilityReport,
+} from './build-manifest';
+export {
+  BUILD_MANIFEST_FILENAME,
+  satisfiesVersionRange,
+  compareBuildManifests,
+} from './build-manifest';
+
+// Iframe remotes
+export type {
+  IframeSsoHints,
+  IframeShellState,
+  ShellToFrameMessage,
+  FrameToShellMessage,
+  IframeBridgeMessage,
+  ShellConnectionOptions,
+  ShellConnection,
+} from './iframe-bridge';
+export {
+  IFRAME_BRIDGE_PROTOCOL,
+  isIframeBridgeMessage,
+  isFrameToShellMessage,
+  connectToShell,
+} from './iframe-bridge';
+
+// Telemetry
+export type {
+  RemoteTelemetryEvent,
+  RemoteTelemetryPhase,
+  TelemetrySink,
+  MemoryTelemetrySink,
+  BeaconTelemetrySinkOptions,
+} from './telemetry';
+export {
+  createConsoleSink,
+  createMemorySink,
+  createBeaconSink,
+  combineSinks,
+} from './telemetry';
 
 // Preference types
 export type { Theme, Language, UserPreferences } from './preferences';
 export { LANGUAGE_LABELS, THEME_LABELS } from './preferences';
 
+// Internationalization
+export type {
+  I18nNamespaces,
+  I18nNamespace,
+  MessageKey,
+  Message,
+  MessageCatalog,
+  PluralMessage,
+  LocalizedCatalogs,
+  TranslationParams,
+  Translator,
+} from './i18n';
+export {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  registerMessages,
+  getRegisteredNamespaces,
+  isSupportedLanguage,
+  translate,
+  createTranslator,
+  formatNumber,
+  formatDate,
+  formatRelativeTime,
+} from './i18n';
+export { errorCatalogs, translateError } from './locales/errors';
+
 // Storage keys
 export { STORAGE_KEYS, type StorageKey } from './storage-keys';
 
+// Cross-app message bus
+export type {
+  MessageBusEvents,
+  MessageBusRequests,
+  MessageBusEventType,
+  MessageBusRequestType,
+  MessageBusEvent,
+  MessageBusEventHandler,
+  MessageBusRequestHandler,
+  PublishOptions,
+  RequestOptions,
+} from './message-bus';
+export {
+  publishMessage,
+  subscribeToMessages,
+  requestMessage,
+  handleMessageRequest,
+  closeMessageBus,
+  getWindowId,
+} from './message-bus';
+
 // Error messages
 export { ERROR_MESSAGES, ErrorCode, ShellError } from './error-messages';
 
@@ -22,6 +133,8 @@ export { ERROR_MESSAGES, ErrorCode, ShellError } from './error-messages';
 export {
   shellConfigSchema,
   remoteAppSchema,
+  federatedRemoteAppSchema,
+  iframeRemoteAppSchema,
   validateShellConfig,
   safeValidateShellConfig,
   type RemoteAppInput,
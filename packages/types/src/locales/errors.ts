@@ -0,0 +1,191 @@
+import { ErrorCode, type ShellError } from '../error-messages';
+import {
+  getRegisteredNamespaces,
+  registerMessages,
+  translate,
+  type LocalizedCatalogs,
+  type MessageCatalog,
+  type TranslationParams,
+} from '../i18n';
+import type { Language } from '../preferences';
+
+/**
+ * User-facing error messages keyed by `ErrorCode`.
+ * English mirrors `ERROR_MESSAGES`; parameters are passed at display time.
+ */
+export const errorMessages = {
+  [ErrorCode.REMOTE_GENERIC]:
+    'An unexpected error occurred while loading the application. Please try again.',
+  [ErrorCode.REMOTE_LOAD_FAILED]:
+    'Unable to load {appName}. Please try again or contact support if the problem persists.',
+  [ErrorCode.REMOTE_MOUNT_FAILED]:
+    '{appName} could not be displayed. Please refresh the page or contact support.',
+  [ErrorCode.REMOTE_INCOMPATIBLE]:
+    '{appName} is not compatible with this version of OnePortal. Please contact support.',
+  [ErrorCode.CONFIG_FETCH_FAILED]:
+    'Configuration unavailable. Using offline mode with limited apps. Please check your connection.',
+  [ErrorCode.CONFIG_INVALID]:
+    'Configuration data is invalid. Please contact support if this issue continues.',
+  [ErrorCode.CONFIG_TIMEOUT]:
+    'Connection timeout while loading configuration. Please check your network and retry.',
+  [ErrorCode.CONFIG_SERVER_ERROR]:
+    'Server error while loading configuration. Our team has been notified. Please try again later.',
+  [ErrorCode.NAV_INVALID_APP]:
+    'Application not found. Please select a valid app from the navigation menu.',
+  [ErrorCode.NAV_FAILED]:
+    'Navigation failed. Please try again or use the menu to select an application.',
+  [ErrorCode.PREF_SAVE_FAILED]:
+    'Unable to save your preferences. Changes may not persist after refresh.',
+  [ErrorCode.PREF_LOAD_FAILED]: 'Unable to load saved preferences. Using default settings.',
+  [ErrorCode.PREF_THEME_ERROR]: 'Theme could not be applied. Please try refreshing the page.',
+  [ErrorCode.COMPAT_UNSUPPORTED]:
+    'Your browser is not supported. Please use Chrome 90+, Firefox 88+, Safari 14+, or Edge 90+.',
+  [ErrorCode.COMPAT_NO_STORAGE]: 'Browser storage is disabled. Some features may not work correctly.',
+  [ErrorCode.BUS_TIMEOUT]: 'Another application did not respond in time. Please try again.',
+  [ErrorCode.BUS_REQUEST_FAILED]: 'The request could not be completed.',
+  [ErrorCode.GENERIC_UNEXPECTED]:
+    'An unexpected error occurred. Please refresh the page or contact support.',
+  [ErrorCode.GENERIC_NOT_IMPLEMENTED]: 'This feature is not yet available. Please check back later.',
+} satisfies MessageCatalog;
+
+declare module '../i18n' {
+  interface I18nNamespaces {
+    errors: typeof errorMessages;
+  }
+}
+
+export const errorCatalogs: LocalizedCatalogs<'errors'> = {
+  en: errorMessages,
+  es: {
+    [ErrorCode.REMOTE_GENERIC]:
+      'Se produjo un error inesperado al cargar la aplicación. Inténtelo de nuevo.',
+    [ErrorCode.REMOTE_LOAD_FAILED]:
+      'No se pudo cargar {appName}. Inténtelo de nuevo o contacte con soporte si el problema persiste.',
+    [ErrorCode.REMOTE_MOUNT_FAILED]:
+      'No se pudo mostrar {appName}. Actualice la página o contacte con soporte.',
+    [ErrorCode.REMOTE_INCOMPATIBLE]:
+      '{appName} no es compatible con esta versión de OnePortal. Contacte con soporte.',
+    [ErrorCode.CONFIG_FETCH_FAILED]:
+      'Configuración no disponible. Se usa el modo sin conexión con aplicaciones limitadas. Compruebe su conexión.',
+    [ErrorCode.CONFIG_INVALID]:
+      'Los datos de configuración no son válidos. Contacte con soporte si el problema continúa.',
+    [ErrorCode.CONFIG_TIMEOUT]:
+      'Se agotó el tiempo al cargar la configuración. Compruebe su red e inténtelo de nuevo.',
+    [ErrorCode.CONFIG_SERVER_ERROR]:
+      'Error del servidor al cargar la configuración. Nuestro equipo ha sido notificado. Inténtelo más tarde.',
+    [ErrorCode.NAV_INVALID_APP]:
+      'Aplicación no encontrada. Seleccione una aplicación válida en el menú de navegación.',
+    [ErrorCode.NAV_FAILED]:
+      'La navegación falló. Inténtelo de nuevo o use el menú para seleccionar una aplicación.',
+    [ErrorCode.PREF_SAVE_FAILED]:
+      'No se pudieron guardar sus preferencias. Es posible que los cambios no se conserven al actualizar.',
+    [ErrorCode.PREF_LOAD_FAILED]:
+      'No se pudieron cargar las preferencias guardadas. Se usa la configuración predeterminada.',
+    [ErrorCode.PREF_THEME_ERROR]: 'No se pudo aplicar el tema. Intente actualizar la página.',
+    [ErrorCode.COMPAT_UNSUPPORTED]:
+      'Su navegador no es compatible. Use Chrome 90+, Firefox 88+, Safari 14+ o Edge 90+.',
+    [ErrorCode.COMPAT_NO_STORAGE]:
+      'El almacenamiento del navegador está desactivado. Algunas funciones pueden no funcionar correctamente.',
+    [ErrorCode.BUS_TIMEOUT]: 'Otra aplicación no respondió a tiempo. Inténtelo de nuevo.',
+    [ErrorCode.BUS_REQUEST_FAILED]: 'No se pudo completar la solicitud.',
+    [ErrorCode.GENERIC_UNEXPECTED]:
+      'Se produjo un error inesperado. Actualice la página o contacte con soporte.',
+    [ErrorCode.GENERIC_NOT_IMPLEMENTED]:
+      'Esta función aún no está disponible. Vuelva a intentarlo más tarde.',
+  },
+  fr: {
+    [ErrorCode.REMOTE_GENERIC]:
+      "Une erreur inattendue s'est produite lors du chargement de l'application. Veuillez réessayer.",
+    [ErrorCode.REMOTE_LOAD_FAILED]:
+      'Impossible de charger {appName}. Veuillez réessayer ou contacter le support si le problème persiste.',
+    [ErrorCode.REMOTE_MOUNT_FAILED]:
+      "{appName} n'a pas pu être affiché. Veuillez actualiser la page ou contacter le support.",
+    [ErrorCode.REMOTE_INCOMPATIBLE]:
+      "{appName} n'est pas compatible avec cette version de OnePortal. Veuillez contacter le support.",
+    [ErrorCode.CONFIG_FETCH_FAILED]:
+      'Configuration indisponible. Mode hors ligne avec applications limitées. Veuillez vérifier votre connexion.',
+    [ErrorCode.CONFIG_INVALID]:
+      'Les données de configuration sont invalides. Contactez le support si le problème persiste.',
+    [ErrorCode.CONFIG_TIMEOUT]:
+      'Délai dépassé lors du chargement de la configuration. Vérifiez votre réseau et réessayez.',
+    [ErrorCode.CONFIG_SERVER_ERROR]:
+      'Erreur serveur lors du chargement de la configuration. Notre équipe a été prévenue. Veuillez réessayer plus tard.',
+    [ErrorCode.NAV_INVALID_APP]:
+      'Application introuvable. Veuillez sélectionner une application valide dans le menu de navigation.',
+    [ErrorCode.NAV_FAILED]:
+      'La navigation a échoué. Veuillez réessayer ou utiliser le menu pour sélectionner une application.',
+    [ErrorCode.PREF_SAVE_FAILED]:
+      "Impossible d'enregistrer vos préférences. Les modifications risquent d'être perdues après actualisation.",
+    [ErrorCode.PREF_LOAD_FAILED]:
+      'Impossible de charger les préférences enregistrées. Paramètres par défaut utilisés.',
+    [ErrorCode.PREF_THEME_ERROR]:
+      "Le thème n'a pas pu être appliqué. Veuillez actualiser la page.",
+    [ErrorCode.COMPAT_UNSUPPORTED]:
+      "Votre navigateur n'est pas pris en charge. Utilisez Chrome 90+, Firefox 88+, Safari 14+ ou Edge 90+.",
+    [ErrorCode.COMPAT_NO_STORAGE]:
+      'Le stockage du navigateur est désactivé. Certaines fonctionnalités peuvent ne pas fonctionner correctement.',
+    [ErrorCode.BUS_TIMEOUT]: "Une autre application n'a pas répondu à temps. Veuillez réessayer.",
+    [ErrorCode.BUS_REQUEST_FAILED]: "La demande n'a pas pu aboutir.",
+    [ErrorCode.GENERIC_UNEXPECTED]:
+      "Une erreur inattendue s'est produite. Veuillez actualiser la page ou contacter le support.",
+    [ErrorCode.GENERIC_NOT_IMPLEMENTED]:
+      "Cette fonctionnalité n'est pas encore disponible. Veuillez revenir plus tard.",
+  },
+  de: {
+    [ErrorCode.REMOTE_GENERIC]:
+      'Beim Laden der Anwendung ist ein unerwarteter Fehler aufgetreten. Bitte versuchen Sie es erneut.',
+    [ErrorCode.REMOTE_LOAD_FAILED]:
+      '{appName} konnte nicht geladen werden. Bitte versuchen Sie es erneut oder wenden Sie sich an den Support.',
+    [ErrorCode.REMOTE_MOUNT_FAILED]:
+      '{appName} konnte nicht angezeigt werden. Bitte laden Sie die Seite neu oder wenden Sie sich an den Support.',
+    [ErrorCode.REMOTE_INCOMPATIBLE]:
+      '{appName} ist nicht mit dieser OnePortal-Version kompatibel. Bitte wenden Sie sich an den Support.',
+    [ErrorCode.CONFIG_FETCH_FAILED]:
+      'Konfiguration nicht verfügbar. Offline-Modus mit eingeschränkten Apps. Bitte prüfen Sie Ihre Verbindung.',
+    [ErrorCode.CONFIG_INVALID]:
+      'Die Konfigurationsdaten sind ungültig. Bitte wenden Sie sich an den Support, falls das Problem weiterhin besteht.',
+    [ErrorCode.CONFIG_TIMEOUT]:
+      'Zeitüberschreitung beim Laden der Konfiguration. Bitte prüfen Sie Ihr Netzwerk und versuchen Sie es erneut.',
+    [ErrorCode.CONFIG_SERVER_ERROR]:
+      'Serverfehler beim Laden der Konfiguration. Unser Team wurde benachrichtigt. Bitte versuchen Sie es später erneut.',
+    [ErrorCode.NAV_INVALID_APP]:
+      'Anwendung nicht gefunden. Bitte wählen Sie eine gültige App im Navigationsmenü.',
+    [ErrorCode.NAV_FAILED]:
+      'Navigation fehlgeschlagen. Bitte versuchen Sie es erneut oder wählen Sie eine Anwendung im Menü.',
+    [ErrorCode.PREF_SAVE_FAILED]:
+      'Ihre Einstellungen konnten nicht gespeichert werden. Änderungen gehen nach dem Neuladen möglicherweise verloren.',
+    [ErrorCode.PREF_LOAD_FAILED]:
+      'Gespeicherte Einstellungen konnten nicht geladen werden. Standardeinstellungen werden verwendet.',
+    [ErrorCode.PREF_THEME_ERROR]:
+      'Das Design konnte nicht angewendet werden. Bitte laden Sie die Seite neu.',
+    [ErrorCode.COMPAT_UNSUPPORTED]:
+      'Ihr Browser wird nicht unterstützt. Bitte verwenden Sie Chrome 90+, Firefox 88+, Safari 14+ oder Edge 90+.',
+    [ErrorCode.COMPAT_NO_STORAGE]:
+      'Der Browserspeicher ist deaktiviert. Einige Funktionen arbeiten möglicherweise nicht korrekt.',
+    [ErrorCode.BUS_TIMEOUT]:
+      'Eine andere Anwendung hat nicht rechtzeitig geantwortet. Bitte versuchen Sie es erneut.',
+    [ErrorCode.BUS_REQUEST_FAILED]: 'Die Anfrage konnte nicht abgeschlossen werden.',
+    [ErrorCode.GENERIC_UNEXPECTED]:
+      'Ein unerwarteter Fehler ist aufgetreten. Bitte laden Sie die Seite neu oder wenden Sie sich an den Support.',
+    [ErrorCode.GENERIC_NOT_IMPLEMENTED]:
+      'Diese Funktion ist noch nicht verfügbar. Bitte schauen Sie später wieder vorbei.',
+  },
+};
+
+/**
+ * Localized message for a `ShellError`, falling back to `error.message`
+ * for codes without a catalog entry.
+ *
+ * @param params - Values for placeholders such as `{appName}`
+ */
+export function translateError(
+  error: ShellError,
+  locale: Language,
+  params?: TranslationParams
+): string {
+  if (!getRegisteredNamespaces().includes('errors')) {
+    registerMessages('errors', errorCatalogs);
+  }
+  const message = translate(locale, 'errors', error.code, params);
+  return message === error.code ? error.message : message;
+}
@@ -0,0 +1,365 @@
+import { ERROR_MESSAGES, ErrorCode, ShellError } from './error-messages';
+import type { UserPreferences } from './preferences';
+import type { NotificationLevel } from './remote-app';
+
+/**
+ * Events carried by the cross-app message bus, keyed by event type.
+ *
+ * Apps declare their own events by augmenting this interface:
+ *
+ * @example
+ * ```typescript
+ * declare module '@one-portal/types' {
+ *   interface MessageBusEvents {
+ *     'domino:task-created': { taskId: string };
+ *   }
+ * }
+ * ```
+ */
+export interface MessageBusEvents {
+  'shell:app-opened': { appId: string };
+  /** Published (also to other tabs) whenever the user changes theme or language */
+  'shell:preferences-changed': { preferences: UserPreferences };
+}
+
+/**
+ * Requests answered over the message bus, keyed by request type.
+ * Augment the same way as `MessageBusEvents`.
+ */
+export interface MessageBusRequests {
+  'shell:open-app': {
+    request: { appId: string; path?: string };
+    response: void;
+  };
+  'shell:notify': {
+    request: { message: string; level?: NotificationLevel };
+    response: void;
+  };
+}
+
+export type MessageBusEventType = keyof MessageBusEvents;
+export type MessageBusRequestType = keyof MessageBusRequests;
+
+export type MessageBusEvent<T extends MessageBusEventType = MessageBusEventType> = {
+  type: T;
+  timestamp: number;
+  payload: MessageBusEvents[T];
+  /** False when the event came from another tab */
+  sameWindow: boolean;
+};
+
+export type MessageBusEventHandler<T extends MessageBusEventType> = (
+  event: MessageBusEvent<T>
+) => void | Promise<void>;
+
+export type MessageBusRequestHandler<T extends MessageBusRequestType> = (
+  payload: MessageBusRequests[T]['request']
+) => MessageBusRequests[T]['response'] | Promise<MessageBusRequests[T]['response']>;
+
+export interface PublishOptions {
+  /** Also deliver to other tabs via BroadcastChannel (default: this window only) */
+  broadcast?: boolean;
+}
+
+export interface RequestOptions extends PublishOptions {
+  /** Reject when no handler answers in time (default 5000ms) */
+  timeoutMs?: number;
+}
+
+interface MessageEnvelope {
+  kind: 'event' | 'request' | 'response';
+  id: string;
+  type: string;
+  windowId: string;
+  timestamp: number;
+  broadcast: boolean;
+  payload?: unknown;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: ShellError) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+declare global {
+  interface Window {
+    __ONE_PORTAL_WINDOW_ID__?: string;
+  }
+}
+
+const CHANNEL_NAME = 'oneportal:bus';
+const WINDOW_EVENT = 'oneportal:bus';
+const DEFAULT_REQUEST_TIMEOUT_MS = 5_000;
+
+type AnyEventHandler = (event: MessageBusEvent) => void | Promise<void>;
+type AnyRequestHandler = (payload: unknown) => unknown;
+
+const eventHandlers = new Map<string, Set<AnyEventHandler>>();
+const requestHandlers = new Map<string, AnyRequestHandler>();
+const pendingRequests = new Map<string, PendingRequest>();
+
+let broadcastChannel: BroadcastChannel | null = null;
+let isListening = false;
+
+/**
+ * Shell and remotes bundle their own copy of this module, so the window id
+ * lives on `window` to let every copy recognise same-window messages.
+ */
+export function getWindowId(): string {
+  window.__ONE_PORTAL_WINDOW_ID__ ??= crypto.randomUUID();
+  return window.__ONE_PORTAL_WINDOW_ID__;
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (!broadcastChannel && typeof BroadcastChannel !== 'undefined') {
+    broadcastChannel = new BroadcastChannel(CHANNEL_NAME);
+    broadcastChannel.addEventListener('message', onChannelMessage);
+  }
+  return broadcastChannel;
+}
+
+function ensureListening(): void {
+  if (isListening) {
+    return;
+  }
+  isListening = true;
+  window.addEventListener(WINDOW_EVENT, onWindowMessage);
+  getChannel();
+}
+
+function isMessageEnvelope(data: unknown): data is MessageEnvelope {
+  if (typeof data !== 'object' || data === null) return false;
+
+  const e = data as Partial<MessageEnvelope>;
+  return (
+    (e.kind === 'event' || e.kind === 'request' || e.kind === 'response') &&
+    typeof e.id === 'string' &&
+    typeof e.type === 'string' &&
+    typeof e.windowId === 'string' &&
+    typeof e.timestamp === 'number'
+  );
+}
+
+function send(envelope: MessageEnvelope): void {
+  window.dispatchEvent(new CustomEvent(WINDOW_EVENT, { detail: envelope }));
+
+  if (envelope.broadcast) {
+    try {
+      getChannel()?.postMessage(envelope);
+    } catch (error) {
+      console.error('[MessageBus] Broadcast failed:', error);
+    }
+  }
+}
+
+function onWindowMessage(event: Event): void {
+  const envelope = (event as CustomEvent<unknown>).detail;
+  if (isMessageEnvelope(envelope)) {
+    void receive(envelope, true);
+  }
+}
+
+function onChannelMessage(event: MessageEvent): void {
+  // Same-window copies already received this through the window event
+  if (isMessageEnvelope(event.data) && event.data.windowId !== getWindowId()) {
+    void receive(event.data, false);
+  }
+}
+
+async function receive(envelope: MessageEnvelope, sameWindow: boolean): Promise<void> {
+  switch (envelope.kind) {
+    case 'event': {
+      const handlers = eventHandlers.get(envelope.type);
+      // Catches both synchronous throws and rejections from async handlers
+      handlers?.forEach((handler) => {
+        Promise.resolve()
+          .then(() =>
+            handler({
+              type: envelope.type as MessageBusEventType,
+              timestamp: envelope.timestamp,
+              payload: envelope.payload as MessageBusEvents[MessageBusEventType],
+              sameWindow,
+            })
+          )
+          .catch((error: unknown) => {
+            console.error('[MessageBus] Handler error:', error);
+          });
+      });
+      return;
+    }
+
+    case 'request': {
+      const handler = requestHandlers.get(envelope.type);
+      if (!handler) {
+        return;
+      }
+
+      const response: MessageEnvelope = {
+        kind: 'response',
+        id: envelope.id,
+        type: envelope.type,
+        windowId: getWindowId(),
+        timestamp: Date.now(),
+        broadcast: !sameWindow,
+      };
+
+      try {
+        response.payload = await handler(envelope.payload);
+      } catch (error) {
+        response.error = error instanceof Error ? error.message : String(error);
+      }
+
+      send(response);
+      return;
+    }
+
+    case 'response': {
+      const pending = pendingRequests.get(envelope.id);
+      if (!pending) {
+        return;
+      }
+
+      pendingRequests.delete(envelope.id);
+      clearTimeout(pending.timeoutId);
+
+      if (envelope.error !== undefined) {
+        pending.reject(
+          new ShellError(
+            ErrorCode.BUS_REQUEST_FAILED,
+            ERROR_MESSAGES.MESSAGE_BUS.REQUEST_FAILED(envelope.type),
+            new Error(envelope.error)
+          )
+        );
+      } else {
+        pending.resolve(envelope.payload);
+      }
+    }
+  }
+}
+
+/**
+ * Publish a typed event to the shell and embedded remotes in this window,
+ * and optionally to other tabs.
+ *
+ * @example
+ * ```typescript
+ * publishMessage('shell:app-opened', { appId: 'domino' });
+ * ```
+ */
+export function publishMessage<T extends MessageBusEventType>(
+  type: T,
+  payload: MessageBusEvents[T],
+  options: PublishOptions = {}
+): void {
+  ensureListening();
+  send({
+    kind: 'event',
+    id: crypto.randomUUID(),
+    type,
+    windowId: getWindowId(),
+    timestamp: Date.now(),
+    broadcast: options.broadcast ?? false,
+    payload,
+  });
+}
+
+/**
+ * Subscribe to a typed event from this window and other tabs
+ */
+export function subscribeToMessages<T extends MessageBusEventType>(
+  type: T,
+  handler: MessageBusEventHandler<T>
+): () => void {
+  ensureListening();
+
+  const handlers = eventHandlers.get(type) ?? new Set<AnyEventHandler>();
+  handlers.add(handler as AnyEventHandler);
+  eventHandlers.set(type, handlers);
+
+  return () => {
+    handlers.delete(handler as AnyEventHandler);
+  };
+}
+
+/**
+ * Send a request and wait for the first answer.
+ * Rejects with `ErrorCode.BUS_TIMEOUT` when nobody answers in time.
+ *
+ * @example
+ * ```typescript
+ * await requestMessage('shell:open-app', { appId: 'one-portal-admin', path: '/users' });
+ * ```
+ */
+export function requestMessage<T extends MessageBusRequestType>(
+  type: T,
+  payload: MessageBusRequests[T]['request'],
+  options: RequestOptions = {}
+): Promise<MessageBusRequests[T]['response']> {
+  ensureListening();
+
+  const id = crypto.randomUUID();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      pendingRequests.delete(id);
+      reject(
+        new ShellError(
+          ErrorCode.BUS_TIMEOUT,
+          ERROR_MESSAGES.MESSAGE_BUS.REQUEST_TIMEOUT(type, timeoutMs)
+        )
+      );
+    }, timeoutMs);
+
+    pendingRequests.set(id, {
+      resolve: resolve as (value: unknown) => void,
+      reject,
+      timeoutId,
+    });
+
+    send({
+      kind: 'request',
+      id,
+      type,
+      windowId: getWindowId(),
+      timestamp: Date.now(),
+      broadcast: options.broadcast ?? false,
+      payload,
+    });
+  });
+}
+
+/**
+ * Answer requests of one type. Only one handler per type and module copy is
+ * kept; registering again replaces the previous handler.
+ */
+export function handleMessageRequest<T extends MessageBusRequestType>(
+  type: T,
+  handler: MessageBusRequestHandler<T>
+): () => void {
+  ensureListening();
+  requestHandlers.set(type, handler as AnyRequestHandler);
+
+  return () => {
+    if (requestHandlers.get(type) === (handler as AnyRequestHandler)) {
+      requestHandlers.delete(type);
+    }
+  };
+}
+
+export function closeMessageBus(): void {
+  if (isListening) {
+    window.removeEventListener(WINDOW_EVENT, onWindowMessage);
+    isListening = false;
+  }
+  if (broadcastChannel) {
+    broadcastChannel.close();
+    broadcastChannel = null;
+  }
+  pendingRequests.forEach((pending) => clearTimeout(pending.timeoutId));
+  pendingRequests.clear();
+  eventHandlers.clear();
+  requestHandlers.clear();
+}
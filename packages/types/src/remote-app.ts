@@ -1,3 +1,174 @@
-export type MountFunction = (containerId: string) => any;
+import type { Language, Theme } from './preferences';
+import contract from './contract.json';
 
-export type UnmountFunction = (container?: HTMLElement) => Promise<void> | void;
+/**
+ * Version of the remote lifecycle contract implemented by this shell.
+ *
+ * Remotes declare the version they were built against via `contractVersion`.
+ * A host can run remotes built against the same major version and the same
+ * or an older minor version. Minor versions add host API members that newer
+ * remotes call unconditionally, so a remote on a newer minor is refused.
+ *
+ * Kept in `contract.json` so build tooling can read it without TypeScript.
+ */
+export const REMOTE_CONTRACT_VERSION: string = contract.version;
+
+/**
+ * Authenticated account as exposed to remotes (no MSAL dependency)
+ */
+export interface RemoteAccount {
+  homeAccountId: string;
+  username: string;
+  name?: string;
+}
+
+/**
+ * Auth handle passed to remotes so they can reuse the shell's session
+ */
+export interface RemoteAuthHandle {
+  getAccount: () => RemoteAccount | null;
+  acquireToken: (scopes: string[]) => Promise<string | null>;
+}
+
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * Breadcrumb rendered by the shell for the active remote
+ */
+export interface ShellBreadcrumb {
+  label: string;
+  /** Path relative to the remote's `basePath`, e.g. `/dashboard` */
+  path?: string;
+}
+
+/**
+ * Navigation entry a remote exposes to the shell's command palette
+ */
+export interface RemoteMenuItem {
+  name: string;
+  /** Path relative to the remote's `basePath`, e.g. `/dashboard` */
+  path: string;
+  description?: string;
+  icon?: string;
+  order?: number;
+  /** Hidden from users holding none of these roles */
+  requiredRoles?: string[];
+  children?: RemoteMenuItem[];
+}
+
+/**
+ * Runtime action a remote offers in the shell's command palette, e.g. "Create task"
+ */
+export interface RemoteCommandAction {
+  /** Unique within the registering remote */
+  id: string;
+  label: string;
+  description?: string;
+  /** Extra search terms */
+  keywords?: string[];
+  /** Hidden from users holding none of these roles */
+  requiredRoles?: string[];
+  run: () => void | Promise<void>;
+}
+
+/**
+ * Services the shell offers to mounted remotes
+ */
+export interface ShellHostApi {
+  /** Navigate to another app (or a sub-path of it) inside the shell */
+  navigate: (appId: string, path?: string) => void;
+  /** Show a shell-level notification */
+  notify: (message: string, level?: NotificationLevel) => void;
+  /** Set the document title; the shell appends its branding */
+  setTitle: (title: string) => void;
+  /** Replace the breadcrumbs shown in the shell header */
+  setBreadcrumbs: (breadcrumbs: ShellBreadcrumb[]) => void;
+  getTheme: () => Theme;
+  /** Returns an unsubscribe function */
+  onThemeChange: (listener: (theme: Theme) => void) => () => void;
+  getUser: () => RemoteAccount | null;
+  /** Acquire an access token from the shell's session; null when unavailable */
+  requestToken: (scopes: string[]) => Promise<string | null>;
+  /**
+   * Report a navigation that happened inside the remote so the shell can
+   * update the browser URL and history. `location` must stay under `basePath`.
+   */
+  syncLocation: (location: string, options?: { replace?: boolean }) => void;
+  /** Publish the remote's navigation tree to the command palette (replaces earlier entries) */
+  registerMenu: (items: RemoteMenuItem[]) => void;
+  /**
+   * Offer an action in the command palette. Returns an unregister function;
+   * actions are also dropped when the remote is unmounted.
+   */
+  registerAction: (action: RemoteCommandAction) => () => void;
+}
+
+/**
+ * Context handed to a remote on mount and on every update
+ */
+export interface RemoteMountContext {
+  /** Path the remote is mounted under, e.g. `/apps/domino` */
+  basePath: string;
+  /**
+   * Current location including `basePath`, search and hash,
+   * e.g. `/apps/domino/dashboard/tasks`. Remotes route from this instead of
+   * reading `window.location`, and follow it on every update.
+   */
+  location: string;
+  theme: Theme;
+  locale: Language;
+  auth: RemoteAuthHandle;
+  shell: ShellHostApi;
+}
+
+/**
+ * Descriptive metadata a remote may report about itself
+ */
+export interface RemoteAppMetadata {
+  name: string;
+  version?: string;
+  /** Rendering technology, e.g. `react`, `vue`, `vanilla` */
+  framework?: string;
+}
+
+export type MountFunction = (
+  container: HTMLElement,
+  context: RemoteMountContext
+) => Promise<void> | void;
+
+export type UnmountFunction = (container: HTMLElement) => Promise<void> | void;
+
+export type UpdateFunction = (context: RemoteMountContext) => Promise<void> | void;
+
+/**
+ * Lifecycle contract exposed by a remote's `./bootstrap` module.
+ *
+ * The remote owns whatever it renders into `container` (a React root, a Vue
+ * app, plain DOM) and must release it in `unmount(container)`.
+ */
+export interface RemoteLifecycle {
+  contractVersion: string;
+  mount: MountFunction;
+  unmount: UnmountFunction;
+  update?: UpdateFunction;
+  getMetadata?: () => RemoteAppMetadata;
+}
+
+/**
+ * Check whether a remote's declared contract version can be hosted: same
+ * major version, and a minor version no newer than the host's
+ */
+export function isCompatibleContractVersion(
+  version: string,
+  hostVersion: string = REMOTE_CONTRACT_VERSION
+): boolean {
+  const parse = (value: string) =>
+    value.split('.', 2).map((part) => Number.parseInt(part, 10));
+  const [remoteMajor, remoteMinor = 0] = parse(version);
+  const [hostMajor, hostMinor = 0] = parse(hostVersion);
+
+  if (remoteMajor === undefined || Number.isNaN(remoteMajor) || Number.isNaN(remoteMinor)) {
+    return false;
+  }
+  return remoteMajor === hostMajor && remoteMinor <= hostMinor;
+}
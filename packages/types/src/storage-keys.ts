@@ -2,7 +2,12 @@ export const STORAGE_KEYS = {
   PREFERENCES: 'oneportal:preferences',
   SHELL_CONFIG: 'oneportal:config',
   ACTIVE_APP: 'oneportal:activeApp',
+  APP_USAGE: 'oneportal:appUsage',
+  REMOTE_MENUS: 'oneportal:remoteMenus',
+  COMMAND_RECENTS: 'oneportal:commandRecents',
   LAST_ROUTE: 'oneportal:lastRoute',
+  /** Last sign-out, kept until the next sign-in (see `@one-portal/auth` single sign-out) */
+  AUTH_LOGOUT: 'oneportal:auth:logout',
 } as const;
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
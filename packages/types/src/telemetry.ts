@@ -0,0 +1,172 @@
+/**
+ * Phases timed while loading, mounting and unmounting a remote:
+ * - `entry-fetch`: downloading and evaluating `remoteEntry.js`
+ * - `evaluate`: `container.get('./bootstrap')` - the exposed chunk and shared scope
+ * - `bootstrap`: running the module factory and validating the lifecycle
+ * - `mount`: attaching styles and `lifecycle.mount`
+ * - `first-render`: from the start of `mount` until the remote's first DOM content is painted
+ * - `unmount`: `lifecycle.unmount` and style cleanup
+ */
+export type RemoteTelemetryPhase =
+  | 'entry-fetch'
+  | 'evaluate'
+  | 'bootstrap'
+  | 'mount'
+  | 'first-render'
+  | 'unmount';
+
+export interface RemoteTelemetryEvent {
+  type: 'remote-timing';
+  scope: string;
+  phase: RemoteTelemetryPhase;
+  success: boolean;
+  durationMs: number;
+  /** Load attempt (0-based) for the load phases */
+  attempt?: number;
+  url?: string;
+  error?: { code?: string; message: string };
+  timestamp: Date;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Destination for telemetry events. Sinks must not throw from `emit`.
+ */
+export interface TelemetrySink<TEvent> {
+  emit: (event: TEvent) => void;
+  /** Send anything buffered, e.g. before the page is hidden */
+  flush?: () => void;
+  /** Flush and release timers and page listeners; the sink is unusable afterwards */
+  dispose?: () => void;
+}
+
+export interface MemoryTelemetrySink<TEvent> extends TelemetrySink<TEvent> {
+  readonly events: readonly TEvent[];
+  clear: () => void;
+}
+
+export interface BeaconTelemetrySinkOptions {
+  /** Events per request (default 20) */
+  maxBatchSize?: number;
+  /** Send partial batches after this long (default 10000ms) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Log every event with `console.info`
+ */
+export function createConsoleSink<TEvent>(label = 'Telemetry'): TelemetrySink<TEvent> {
+  return {
+    emit: (event) => console.info(`[${label}]`, event),
+  };
+}
+
+/**
+ * Keep the most recent events in memory, for tests and diagnostics
+ */
+export function createMemorySink<TEvent>(limit = 500): MemoryTelemetrySink<TEvent> {
+  const events: TEvent[] = [];
+
+  return {
+    events,
+    emit: (event) => {
+      events.push(event);
+      if (events.length > limit) {
+        events.splice(0, events.length - limit);
+      }
+    },
+    clear: () => {
+      events.length = 0;
+    },
+  };
+}
+
+/**
+ * POST batches of events as JSON with `navigator.sendBeacon`, so they survive
+ * the page being hidden or closed. Falls back to a `keepalive` fetch when the
+ * beacon is unavailable or refused.
+ */
+export function createBeaconSink<TEvent>(
+  url: string,
+  options: BeaconTelemetrySinkOptions = {}
+): TelemetrySink<TEvent> {
+  const { maxBatchSize = 20, flushIntervalMs = 10_000 } = options;
+  let queue: TEvent[] = [];
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timeoutId);
+    timeoutId = undefined;
+    if (queue.length === 0) {
+      return;
+    }
+
+    const body = JSON.stringify(queue);
+    queue = [];
+
+    try {
+      const queued =
+        typeof navigator.sendBeacon === 'function' &&
+        navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }));
+      if (!queued) {
+        void fetch(url, {
+          method: 'POST',
+          body,
+          headers: { 'Content-Type': 'application/json' },
+          keepalive: true,
+        }).catch(() => {});
+      }
+    } catch (error) {
+      console.warn('[Telemetry] Failed to send events:', error);
+    }
+  };
+
+  const flushWhenHidden = () => {
+    if (document.visibilityState === 'hidden') {
+      flush();
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', flushWhenHidden);
+  }
+
+  return {
+    emit: (event) => {
+      queue.push(event);
+      if (queue.length >= maxBatchSize) {
+        flush();
+      } else {
+        timeoutId ??= setTimeout(flush, flushIntervalMs);
+      }
+    },
+    flush,
+    dispose: () => {
+      flush();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', flush);
+        document.removeEventListener('visibilitychange', flushWhenHidden);
+      }
+    },
+  };
+}
+
+/**
+ * Fan events out to several sinks; a failing sink does not affect the others
+ */
+export function combineSinks<TEvent>(...sinks: TelemetrySink<TEvent>[]): TelemetrySink<TEvent> {
+  return {
+    emit: (event) => {
+      for (const sink of sinks) {
+        try {
+          sink.emit(event);
+        } catch (error) {
+          console.warn('[Telemetry] Sink failed:', error);
+        }
+      }
+    },
+    flush: () => sinks.forEach((sink) => sink.flush?.()),
+    dispose: () => sinks.forEach((sink) => sink.dispose?.()),
+  };
+}
@@ -1,16 +1,62 @@
 import { z } from 'zod';
 
-export const remoteAppSchema = z.object({
+/**
+ * Remote entries are either absolute URLs (CDN/other origin) or
+ * root-relative paths served alongside the shell (e.g. `/domino/assets/remoteEntry.js`).
+ */
+const remoteEntryUrlSchema = z
+  .string()
+  .refine(
+    (value) => /^\/[^/]/.test(value) || z.string().url().safeParse(value).success,
+    'Invalid remote entry URL'
+  );
+
+const remoteAppBaseSchema = z.object({
   id: z.string().min(1, 'App ID is required'),
   name: z.string().min(1, 'App name is required'),
-  remoteEntryUrl: z.string().url('Invalid remote entry URL'),
-  moduleName: z.string().min(1, 'Module name is required'),
-  scope: z.string().min(1, 'Scope is required'),
   icon: z.string().optional(),
   order: z.number().int().nonnegative().optional().default(0),
   enabled: z.boolean().optional().default(true),
+  requiredRoles: z.array(z.string().min(1)).optional(),
 });
 
+export const federatedRemoteAppSchema = remoteAppBaseSchema.extend({
+  kind: z.literal('federation').optional(),
+  remoteEntryUrl: remoteEntryUrlSchema,
+  fallbackEntryUrls: z.array(remoteEntryUrlSchema).optional(),
+  moduleName: z.string().min(1, 'Module name is required'),
+  scope: z.string().min(1, 'Scope is required'),
+  keepAlive: z.boolean().optional(),
+  versionPolicy: z.enum(['strict', 'warn']).optional(),
+  styleIsolation: z.enum(['none', 'shadow', 'scoped']).optional(),
+});
+
+/**
+ * Iframe apps live on their own web origin; `allowedOrigins` entries are bare
+ * origins without path, e.g. `https://legacy.example.com`
+ */
+const webUrlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//.test(value), 'Must be an http(s) URL');
+
+export const iframeRemoteAppSchema = remoteAppBaseSchema.extend({
+  kind: z.literal('iframe'),
+  url: webUrlSchema,
+  allowedOrigins: z
+    .array(
+      webUrlSchema.refine(
+        (value) => new URL(value).origin === value.replace(/\/$/, ''),
+        'Must be an origin without a path'
+      )
+    )
+    .optional(),
+  sandbox: z.array(z.string().regex(/^allow-[a-z-]+$/, 'Invalid sandbox token')).optional(),
+  allow: z.string().optional(),
+});
+
+export const remoteAppSchema = z.union([federatedRemoteAppSchema, iframeRemoteAppSchema]);
+
 export const brandingSchema = z.object({
   title: z.string().min(1, 'Branding title is required'),
   logoUrl: z.string().url('Invalid logo URL').optional(),
@@ -25,6 +71,7 @@ export const shellConfigSchema = z.object({
   apps: z.array(remoteAppSchema).min(1, 'At least one app is required'),
   branding: brandingSchema,
   defaults: defaultPreferencesSchema.optional(),
+  keepAliveLimit: z.number().int().nonnegative().optional(),
 });
 
 export type RemoteAppInput = z.infer<typeof remoteAppSchema>;
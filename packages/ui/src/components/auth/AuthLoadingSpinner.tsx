@@ -1,4 +1,5 @@
 import { Spinner } from '../ui/spinner';
+import { useUiTranslation } from '../../i18n/messages';
 
 interface AuthLoadingSpinnerProps {
   title?: string;
@@ -10,15 +11,19 @@ interface AuthLoadingSpinnerProps {
  * Provides ARIA attributes for screen readers
  */
 export function AuthLoadingSpinner({
-  title = 'Initializing authentication...',
-  description = 'Please wait while we set up your session.',
+  title,
+  description,
   className = ''
 }: AuthLoadingSpinnerProps) {
+  const { t } = useUiTranslation();
+  const heading = title ?? t('auth.initializing.title');
+  const detail = description ?? t('auth.initializing.description');
+
   return (
     <div className='flex flex-col gap-2 items-center'>
-      <h2 className="text-lg font-semibold">{title}</h2>
-      <p className="text-sm text-muted-foreground">{description}</p>
-      <Spinner size="md" aria-label={title} aria-describedby={description} className={className} />
+      <h2 className="text-lg font-semibold">{heading}</h2>
+      <p className="text-sm text-muted-foreground">{detail}</p>
+      <Spinner size="md" aria-label={heading} aria-describedby={detail} className={className} />
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Button } from '../ui/button';
 import { LogIn } from 'lucide-react';
+import { useUiTranslation } from '../../i18n/messages';
 
 interface SignInPromptProps {
   onSignIn: () => void;
@@ -9,6 +10,8 @@ interface SignInPromptProps {
 
 export const SignInPrompt = React.forwardRef<HTMLButtonElement, SignInPromptProps>(
   ({ onSignIn, isLoading = false }, ref) => {
+    const { t } = useUiTranslation();
+
     return (
       <div className="flex flex-col items-center justify-center p-8 bg-background text-foreground dark:bg-background dark:text-foreground">
         <div className="text-center max-w-md">
@@ -23,12 +26,12 @@ export const SignInPrompt = React.forwardRef<HTMLButtonElement, SignInPromptProp
           {isLoading ? (
             <>
               <span className="animate-spin mr-2">⏳</span>
-              Signing in...
+              {t('signIn.loading')}
             </>
           ) : (
             <>
               <LogIn className="mr-2 h-4 w-4" />
-              Sign in with Microsoft
+              {t('signIn.button')}
             </>
           )}
         </Button>
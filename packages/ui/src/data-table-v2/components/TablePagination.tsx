@@ -20,6 +20,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../../components/ui/select";
+import { useUiTranslation } from "../../i18n/messages";
 
 interface TablePaginationProps<TData> {
   table: Table<TData>;
@@ -34,6 +35,7 @@ export function TablePagination<TData>({
   showPageInfo = true,
   showPageSizeSelector = true,
 }: TablePaginationProps<TData>) {
+  const { t } = useUiTranslation();
   const pageIndex = table.getState().pagination.pageIndex;
   const pageSize = table.getState().pagination.pageSize;
   const pageCount = table.getPageCount();
@@ -50,7 +52,9 @@ export function TablePagination<TData>({
       {/* Left: Page size selector */}
       {showPageSizeSelector && (
         <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">Rows per page:</span>
+          <span className="text-sm text-muted-foreground">
+            {t("table.rowsPerPage")}
+          </span>
           <Select
             value={pageSize.toString()}
             onValueChange={(value) => {
@@ -75,7 +79,11 @@ export function TablePagination<TData>({
       {showPageInfo && totalRows > 0 && (
         <div className="flex items-center gap-4 text-sm text-muted-foreground dark:text-muted-foreground">
           <span>
-            Showing {startRow} to {endRow} of {totalRows} results
+            {t("table.showing", {
+              start: startRow,
+              end: endRow,
+              count: totalRows,
+            })}
           </span>
         </div>
       )}
@@ -102,7 +110,7 @@ export function TablePagination<TData>({
         {/* Page numbers */}
         <div className="flex items-center gap-1">
           <span className="text-sm text-foreground">
-            Page {pageIndex + 1} of {pageCount}
+            {t("table.page", { page: pageIndex + 1, pageCount })}
           </span>
         </div>
 
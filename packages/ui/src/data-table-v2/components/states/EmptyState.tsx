@@ -7,6 +7,7 @@
 import * as React from "react";
 import { FileQuestion } from "lucide-react";
 import { Button } from "../../../components/ui/button";
+import { useUiTranslation } from "../../../i18n/messages";
 
 export interface EmptyStateProps {
   message?: string;
@@ -19,11 +20,13 @@ export interface EmptyStateProps {
 }
 
 export function EmptyState({
-  message = "No data available",
+  message,
   icon,
   action,
   className,
 }: EmptyStateProps) {
+  const { t } = useUiTranslation();
+
   return (
     <div
       className={`flex flex-col items-center justify-center gap-3 py-12 text-muted-foreground dark:text-muted-foreground ${className || ""}`}
@@ -35,7 +38,7 @@ export function EmptyState({
 
       {/* Message */}
       <div className="text-center">
-        <p className="text-sm font-medium">{message}</p>
+        <p className="text-sm font-medium">{message ?? t("table.empty")}</p>
       </div>
 
       {/* Optional Action Button */}
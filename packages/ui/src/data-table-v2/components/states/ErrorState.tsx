@@ -7,6 +7,7 @@
 import * as React from "react";
 import { AlertCircle } from "lucide-react";
 import { Button } from "../../../components/ui/button";
+import { useUiTranslation } from "../../../i18n/messages";
 
 export interface ErrorStateProps {
   /** Main error message */
@@ -21,12 +22,14 @@ export interface ErrorStateProps {
 }
 
 export function ErrorState({
-  message = "Error loading data",
+  message,
   details,
   onRetry,
   icon,
   className,
 }: ErrorStateProps) {
+  const { t } = useUiTranslation();
+
   return (
     <div
       className={`flex flex-col items-center justify-center gap-3 py-12 text-destructive dark:text-destructive ${className || ""}`}
@@ -38,7 +41,7 @@ export function ErrorState({
 
       {/* Messages */}
       <div className="text-center">
-        <p className="font-medium">{message}</p>
+        <p className="font-medium">{message ?? t("table.error")}</p>
         {details && (
           <p className="mt-1 text-sm text-muted-foreground dark:text-muted-foreground">
             {details}
@@ -49,7 +52,7 @@ export function ErrorState({
       {/* Retry Button */}
       {onRetry && (
         <Button onClick={onRetry} variant="outline" size="sm">
-          Try again
+          {t("table.retry")}
         </Button>
       )}
     </div>
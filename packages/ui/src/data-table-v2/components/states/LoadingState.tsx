@@ -5,6 +5,7 @@
  */
 
 import { Loader2 } from "lucide-react";
+import { useUiTranslation } from "../../../i18n/messages";
 
 export interface LoadingStateProps {
   /** Loading message to display (only for spinner mode) */
@@ -21,20 +22,22 @@ export interface LoadingStateProps {
 }
 
 export function LoadingState({
-  message = "Loading...",
+  message,
   mode = "spinner",
   rowCount = 5,
   columnCount = 5,
   density = "default",
   className,
 }: LoadingStateProps) {
+  const { t } = useUiTranslation();
+
   if (mode === "spinner") {
     return (
       <div
         className={`flex flex-col items-center justify-center gap-3 py-12 text-muted-foreground dark:text-muted-foreground ${className || ""}`}
       >
         <Loader2 className="h-8 w-8 animate-spin text-primary dark:text-primary" />
-        <span className="text-sm">{message}</span>
+        <span className="text-sm">{message ?? t("table.loading")}</span>
       </div>
     );
   }
@@ -7,6 +7,7 @@
 import * as React from "react";
 import { SearchX } from "lucide-react";
 import { Button } from "../../../components/ui/button";
+import { useUiTranslation } from "../../../i18n/messages";
 
 export interface NoResultsStateProps {
   message?: string;
@@ -16,11 +17,13 @@ export interface NoResultsStateProps {
 }
 
 export function NoResultsState({
-  message = "No results found",
+  message,
   onClearFilters,
   icon,
   className,
 }: NoResultsStateProps) {
+  const { t } = useUiTranslation();
+
   return (
     <div
       className={`flex flex-col items-center justify-center gap-3 py-12 text-muted-foreground dark:text-muted-foreground ${className || ""}`}
@@ -32,16 +35,16 @@ export function NoResultsState({
 
       {/* Message */}
       <div className="text-center">
-        <p className="text-sm font-medium">{message}</p>
+        <p className="text-sm font-medium">{message ?? t("table.noResults")}</p>
         <p className="mt-1 text-xs text-muted-foreground/70 dark:text-muted-foreground/70">
-          Try adjusting your filters
+          {t("table.noResults.hint")}
         </p>
       </div>
 
       {/* Clear Filters Button */}
       {onClearFilters && (
         <Button onClick={onClearFilters} variant="outline" size="sm">
-          Clear filters
+          {t("table.clearFilters")}
         </Button>
       )}
     </div>
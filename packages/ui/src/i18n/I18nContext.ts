@@ -0,0 +1,8 @@
+import { createContext } from "react";
+import { DEFAULT_LANGUAGE, type Language } from "@one-portal/types";
+
+/**
+ * Active locale for translations and formatting.
+ * Defaults to English when no `I18nProvider` is rendered.
+ */
+export const I18nContext = createContext<Language>(DEFAULT_LANGUAGE);
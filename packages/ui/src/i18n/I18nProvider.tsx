@@ -0,0 +1,12 @@
+import type { Language } from "@one-portal/types";
+import { I18nContext } from "./I18nContext";
+
+interface I18nProviderProps {
+  /** Shell: the language preference. Remotes: `context.locale` from the mount context */
+  locale: Language;
+  children: React.ReactNode;
+}
+
+export function I18nProvider({ locale, children }: I18nProviderProps) {
+  return <I18nContext.Provider value={locale}>{children}</I18nContext.Provider>;
+}
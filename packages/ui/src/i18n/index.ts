@@ -0,0 +1,3 @@
+export { I18nProvider } from "./I18nProvider";
+export { useTranslation, type UseTranslationResult } from "./useTranslation";
+export { useUiTranslation } from "./messages";
@@ -0,0 +1,122 @@
+import {
+  getRegisteredNamespaces,
+  registerMessages,
+  type LocalizedCatalogs,
+  type MessageCatalog,
+} from "@one-portal/types";
+import { useTranslation } from "./useTranslation";
+
+const uiMessages = {
+  "signIn.button": "Sign in with Microsoft",
+  "signIn.loading": "Signing in...",
+  "auth.initializing.title": "Initializing authentication...",
+  "auth.initializing.description": "Please wait while we set up your session.",
+  "table.empty": "No data available",
+  "table.error": "Error loading data",
+  "table.retry": "Try again",
+  "table.loading": "Loading...",
+  "table.noResults": "No results found",
+  "table.noResults.hint": "Try adjusting your filters",
+  "table.clearFilters": "Clear filters",
+  "table.rowsPerPage": "Rows per page:",
+  "table.showing": {
+    one: "Showing {start} to {end} of {count} result",
+    other: "Showing {start} to {end} of {count} results",
+  },
+  "table.page": "Page {page} of {pageCount}",
+  "idle.title": "Are you still there?",
+  "idle.description": "You will be signed out in {time} because of inactivity.",
+  "idle.signOut": "Sign out",
+  "idle.staySignedIn": "Stay signed in",
+} satisfies MessageCatalog;
+
+declare module "@one-portal/types" {
+  interface I18nNamespaces {
+    ui: typeof uiMessages;
+  }
+}
+
+const uiCatalogs: LocalizedCatalogs<"ui"> = {
+  en: uiMessages,
+  es: {
+    "signIn.button": "Iniciar sesión con Microsoft",
+    "signIn.loading": "Iniciando sesión...",
+    "auth.initializing.title": "Inicializando la autenticación...",
+    "auth.initializing.description": "Espere mientras preparamos su sesión.",
+    "table.empty": "No hay datos disponibles",
+    "table.error": "Error al cargar los datos",
+    "table.retry": "Reintentar",
+    "table.loading": "Cargando...",
+    "table.noResults": "No se encontraron resultados",
+    "table.noResults.hint": "Pruebe a ajustar los filtros",
+    "table.clearFilters": "Borrar filtros",
+    "table.rowsPerPage": "Filas por página:",
+    "table.showing": {
+      one: "Mostrando {start} a {end} de {count} resultado",
+      other: "Mostrando {start} a {end} de {count} resultados",
+    },
+    "table.page": "Página {page} de {pageCount}",
+    "idle.title": "¿Sigue ahí?",
+    "idle.description": "Se cerrará su sesión en {time} por inactividad.",
+    "idle.signOut": "Cerrar sesión",
+    "idle.staySignedIn": "Mantener la sesión",
+  },
+  fr: {
+    "signIn.button": "Se connecter avec Microsoft",
+    "signIn.loading": "Connexion...",
+    "auth.initializing.title": "Initialisation de l'authentification...",
+    "auth.initializing.description": "Veuillez patienter pendant la préparation de votre session.",
+    "table.empty": "Aucune donnée disponible",
+    "table.error": "Erreur lors du chargement des données",
+    "table.retry": "Réessayer",
+    "table.loading": "Chargement...",
+    "table.noResults": "Aucun résultat",
+    "table.noResults.hint": "Essayez de modifier vos filtres",
+    "table.clearFilters": "Effacer les filtres",
+    "table.rowsPerPage": "Lignes par page :",
+    "table.showing": {
+      one: "Affichage de {start} à {end} sur {count} résultat",
+      other: "Affichage de {start} à {end} sur {count} résultats",
+    },
+    "table.page": "Page {page} sur {pageCount}",
+    "idle.title": "Êtes-vous toujours là ?",
+    "idle.description": "Vous serez déconnecté dans {time} pour cause d'inactivité.",
+    "idle.signOut": "Se déconnecter",
+    "idle.staySignedIn": "Rester connecté",
+  },
+  de: {
+    "signIn.button": "Mit Microsoft anmelden",
+    "signIn.loading": "Anmeldung läuft...",
+    "auth.initializing.title": "Authentifizierung wird initialisiert...",
+    "auth.initializing.description": "Bitte warten Sie, während wir Ihre Sitzung einrichten.",
+    "table.empty": "Keine Daten verfügbar",
+    "table.error": "Fehler beim Laden der Daten",
+    "table.retry": "Erneut versuchen",
+    "table.loading": "Wird geladen...",
+    "table.noResults": "Keine Ergebnisse gefunden",
+    "table.noResults.hint": "Passen Sie Ihre Filter an",
+    "table.clearFilters": "Filter zurücksetzen",
+    "table.rowsPerPage": "Zeilen pro Seite:",
+    "table.showing": {
+      one: "{start} bis {end} von {count} Ergebnis",
+      other: "{start} bis {end} von {count} Ergebnissen",
+    },
+    "table.page": "Seite {page} von {pageCount}",
+    "idle.title": "Sind Sie noch da?",
+    "idle.description": "Sie werden in {time} wegen Inaktivität abgemeldet.",
+    "idle.signOut": "Abmelden",
+    "idle.staySignedIn": "Angemeldet bleiben",
+  },
+};
+
+/**
+ * Translations for the shared components in this package and the auth
+ * package's dialogs.
+ * Registered on first use so consumers don't need to set anything up.
+ */
+export function useUiTranslation() {
+  if (!getRegisteredNamespaces().includes("ui")) {
+    registerMessages("ui", uiCatalogs);
+  }
+  return useTranslation("ui");
+}
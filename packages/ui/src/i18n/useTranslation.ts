@@ -0,0 +1,45 @@
+import { useContext, useMemo } from "react";
+import {
+  createTranslator,
+  formatDate,
+  formatNumber,
+  formatRelativeTime,
+  type I18nNamespace,
+  type Language,
+  type Translator,
+} from "@one-portal/types";
+import { I18nContext } from "./I18nContext";
+
+export interface UseTranslationResult<N extends I18nNamespace> {
+  t: Translator<N>;
+  locale: Language;
+  formatDate: (value: Date | number | string, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatRelativeTime: (value: Date | number | string) => string;
+}
+
+/**
+ * Translate messages of a registered namespace in the active locale
+ *
+ * @example
+ * ```tsx
+ * const { t, formatDate } = useTranslation("domino");
+ * return <p>{t("tasks.count", { count: tasks.length })}</p>;
+ * ```
+ */
+export function useTranslation<N extends I18nNamespace>(
+  namespace: N
+): UseTranslationResult<N> {
+  const locale = useContext(I18nContext);
+
+  return useMemo(
+    () => ({
+      t: createTranslator(locale, namespace),
+      locale,
+      formatDate: (value, options) => formatDate(value, locale, options),
+      formatNumber: (value, options) => formatNumber(value, locale, options),
+      formatRelativeTime: (value) => formatRelativeTime(value, locale),
+    }),
+    [locale, namespace]
+  );
+}
@@ -111,6 +111,17 @@ export {
   DialogTitle,
   DialogDescription,
 } from "./components/ui/dialog";
+export {
+  Command,
+  CommandDialog,
+  CommandInput,
+  CommandList,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+  CommandShortcut,
+  CommandSeparator,
+} from "./components/ui/command";
 export {
   DropdownMenu,
   DropdownMenuTrigger,
@@ -163,6 +174,9 @@ export { Spinner, type SpinnerProps } from "./components/ui/spinner";
 export { SignInPrompt } from "./components/auth/SignInPrompt";
 export { AuthLoadingSpinner } from "./components/auth/AuthLoadingSpinner";
 
+// Internationalization
+export * from "./i18n";
+
 // Utilities
 export { cn } from "./lib/utils";
 export { useIsMobile } from "./hooks/use-mobile";
@@ -184,4 +198,9 @@ export {
   UserCircle,
   Bell,
   Search,
+  ShieldAlert,
+  Languages,
+  Activity,
+  Users,
+  UserPlus,
 } from "lucide-react";
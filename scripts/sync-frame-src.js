@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+/**
+ * Keeps the CSP frame-src and connect-src in staticwebapp.config.json in line
+ * with the origins of iframe apps (`kind: "iframe"`) in the shell
+ * configuration. The shell cannot frame an origin frame-src does not list,
+ * and its health probe cannot reach one connect-src does not list.
+ *
+ * Usage:
+ *   node scripts/sync-frame-src.js [config.json]          Update staticwebapp.config.json
+ *   node scripts/sync-frame-src.js [config.json] --check  Exit 1 when it is out of date
+ *
+ * Defaults to the bundled apps/shell/src/config/shell-config.json. Pass the
+ * configuration served from VITE_SHELL_CONFIG_URL when one is used.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+const SWA_CONFIG_PATH = join(ROOT_DIR, 'staticwebapp.config.json');
+const DEFAULT_SHELL_CONFIG_PATH = join(ROOT_DIR, 'apps/shell/src/config/shell-config.json');
+
+/** Sources the shell frames regardless of configuration (MSAL silent renewal) */
+const BASE_FRAME_SOURCES = ["'self'", 'https://login.microsoftonline.com'];
+
+/** Sources the shell connects to regardless of configuration (Entra ID, Graph) */
+const BASE_CONNECT_SOURCES = [
+  "'self'",
+  'https://*.windows.net',
+  'https://*.microsoft.com',
+  'https://*.microsoftonline.com',
+  'https://login.microsoftonline.com',
+];
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes('--check');
+const shellConfigPath = resolve(args.find((arg) => !arg.startsWith('--')) ?? DEFAULT_SHELL_CONFIG_PATH);
+
+const shellConfig = JSON.parse(readFileSync(shellConfigPath, 'utf8'));
+const iframeOrigins = new Set();
+
+for (const app of shellConfig.apps ?? []) {
+  if (app.kind !== 'iframe') continue;
+  for (const url of [app.url, ...(app.allowedOrigins ?? [])]) {
+    iframeOrigins.add(new URL(url).origin);
+  }
+}
+
+const sortedOrigins = [...iframeOrigins].sort();
+const directives = [
+  `frame-src ${[...BASE_FRAME_SOURCES, ...sortedOrigins].join(' ')}`,
+  `connect-src ${[...BASE_CONNECT_SOURCES, ...sortedOrigins].join(' ')}`,
+];
+
+/** Replace a directive in the policy, or append it when missing */
+function setDirective(policy, directive) {
+  const pattern = new RegExp(`${directive.split(' ')[0]} [^;]*`);
+  return pattern.test(policy)
+    ? policy.replace(pattern, directive)
+    : `${policy.replace(/;?\s*$/, ';')} ${directive};`;
+}
+
+const swaConfigText = readFileSync(SWA_CONFIG_PATH, 'utf8');
+const csp = JSON.parse(swaConfigText).globalHeaders['Content-Security-Policy'];
+const updatedCsp = directives.reduce(setDirective, csp);
+
+console.info(`🔍 Iframe origins in ${shellConfigPath}:`);
+console.info(iframeOrigins.size ? [...iframeOrigins].map((origin) => `   ${origin}`).join('\n') : '   (none)');
+
+if (updatedCsp === csp) {
+  console.info('✅ CSP frame-src and connect-src are up to date');
+  process.exit(0);
+}
+
+if (checkOnly) {
+  console.error('❌ CSP frame-src or connect-src in staticwebapp.config.json is out of date');
+  directives.forEach((directive) => console.error(`   Expected: ${directive}`));
+  console.error('   Run: pnpm sync:frame-src');
+  process.exit(1);
+}
+
+// Replace the header value in place to keep the file's formatting
+writeFileSync(
+  SWA_CONFIG_PATH,
+  swaConfigText.replace(JSON.stringify(csp), () => JSON.stringify(updatedCsp))
+);
+directives.forEach((directive) => console.info(`✅ Updated CSP: ${directive}`));
@@ -60,20 +60,20 @@ module.exports = function generator(plop: PlopTypes.NodePlopAPI): void {
   },
 $2`,
       },
-      // Update shell configuration
+      // Register the app in the shell's bundled app catalog
       {
         type: 'modify',
-        path: '{{ turbo.paths.root }}/apps/shell/src/routes/__root.tsx',
-        pattern: /(const mockApps = \[[\s\S]*?)(\s+\];)/,
-        template: `$1  {
-    id: '{{ appName }}',
-    name: '{{ displayName }}',
-    remoteEntryUrl: '/{{ appName }}/assets/remoteEntry.js',
-    moduleName: '{{ appName }}',
-    scope: '{{ appName }}',
-    displayOrder: {{ displayOrder }},
-  },
-$2`,
+        path: '{{ turbo.paths.root }}/apps/shell/src/config/shell-config.json',
+        pattern: /("apps": \[[\s\S]*?\})(\n {2}\])/,
+        template: `$1,
+    {
+      "id": "{{ appName }}",
+      "name": "{{ displayName }}",
+      "remoteEntryUrl": "/{{ appName }}/assets/remoteEntry.js",
+      "moduleName": "{{ appName }}",
+      "scope": "{{ appName }}",
+      "order": {{ displayOrder }}
+    }$2`,
       },
       // Custom action to display next steps
       function (answers: { appName?: string }) {
@@ -82,35 +82,20 @@ export default function generator(plop: PlopTypes.NodePlopAPI): void {
   }
 $2`,
       },
-      // Update shell navigation (__root.tsx)
+      // Register the app in the shell's bundled app catalog
       {
         type: "modify",
-        path: "{{ turbo.paths.root }}/apps/shell/src/routes/__root.tsx",
-        pattern: /(const mockApps = \[[\s\S]*?)(\s+\];)/,
-        template: `$1  {
-    id: '{{ appName }}',
-    name: '{{ displayName }}',
-    remoteEntryUrl: '/{{ appName }}/assets/remoteEntry.js',
-    moduleName: '{{ appName }}',
-    scope: '{{ appName }}',
-    displayOrder: {{ displayOrder }},
-  },
-$2`,
-      },
-      // Update shell route (apps.$appId.tsx)
-      {
-        type: "modify",
-        path: "{{ turbo.paths.root }}/apps/shell/src/routes/apps.$appId.tsx",
-        pattern: /(const mockApps = \[[\s\S]*?)(\s+\];)/,
-        template: `$1    {
-      id: '{{ appName }}',
-      name: '{{ displayName }}',
-      remoteEntryUrl: '/{{ appName }}/assets/remoteEntry.js',
-      moduleName: '{{ appName }}',
-      scope: '{{ appName }}',
-      displayOrder: {{ displayOrder }},
-    },
-$2`,
+        path: "{{ turbo.paths.root }}/apps/shell/src/config/shell-config.json",
+        pattern: /("apps": \[[\s\S]*?\})(\n {2}\])/,
+        template: `$1,
+    {
+      "id": "{{ appName }}",
+      "name": "{{ displayName }}",
+      "remoteEntryUrl": "/{{ appName }}/assets/remoteEntry.js",
+      "moduleName": "{{ appName }}",
+      "scope": "{{ appName }}",
+      "order": {{ displayOrder }}
+    }$2`,
       },
       // Custom action to display next steps
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -128,7 +113,7 @@ $2`,
         console.log("\n📋 Files generated:");
         // eslint-disable-next-line no-console
         console.log(
-          "   ✓ Core app structure (App.tsx, bootstrap.tsx, main.tsx)",
+          "   ✓ Core app structure (App.tsx, router.ts, bootstrap.tsx, main.tsx)",
         );
         // eslint-disable-next-line no-console
         console.log(
@@ -182,7 +167,7 @@ $2`,
         console.log("   ✓ Updated scripts/combine-builds.js");
         // eslint-disable-next-line no-console
         console.log(
-          "   ✓ Updated apps/shell navigation (__root.tsx and apps.$appId.tsx)",
+          "   ✓ Registered app in apps/shell/src/config/shell-config.json",
         );
         // eslint-disable-next-line no-console
         console.log("\n🚀 Next steps:");